@@ -0,0 +1,366 @@
+import {
+  app,
+  BrowserWindow,
+  Menu,
+  MenuItemConstructorOptions,
+  nativeImage,
+  NativeImage,
+  Notification,
+  powerMonitor,
+  Tray,
+} from 'electron';
+import isDev from 'electron-is-dev';
+import type {
+  AppCommand,
+  FaultSettings,
+  SyncState,
+} from '../src/types/electron';
+import { FAULT_SCENARIOS } from './faults.js';
+import { listen } from './ipc.js';
+import { settingsStore } from './settings.js';
+
+// A single failure is usually a blip the next sync fixes on its own
+const FAILURES_BEFORE_NOTIFYING = 3;
+
+const STATUS_COLORS: Record<SyncState['status'], [number, number, number]> = {
+  synced: [34, 197, 94], // Tailwind green-500
+  pending: [245, 158, 11], // Tailwind amber-500
+  syncing: [59, 130, 246], // Tailwind blue-500
+  error: [239, 68, 68], // Tailwind red-500
+};
+
+const STATUSES = Object.keys(STATUS_COLORS);
+
+// Shown when renderers disagree, most pressing first
+const STATUS_PRIORITY: SyncState['status'][] = [
+  'syncing',
+  'error',
+  'pending',
+  'synced',
+];
+
+const IDLE_STATE: SyncState = {
+  status: 'synced',
+  pending: 0,
+  conflicts: 0,
+  failures: 0,
+};
+
+// The app ships no image files, so tray icons are drawn as coloured dots
+const dotIcon = ([r, g, b]: [number, number, number]) => {
+  const size = 32;
+  const radius = size / 2 - 4;
+  const bitmap = Buffer.alloc(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x + 0.5 - size / 2;
+      const dy = y + 0.5 - size / 2;
+      if (dx * dx + dy * dy > radius * radius) continue;
+      // Bitmaps are BGRA
+      bitmap.set([b, g, r, 255], (y * size + x) * 4);
+    }
+  }
+  return nativeImage.createFromBitmap(bitmap, {
+    width: size,
+    height: size,
+    scaleFactor: 2,
+  });
+};
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Messages come from the renderer, so anything malformed is dropped
+const toSyncState = (value: unknown): SyncState | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { status, pending, conflicts, failures, error } = value as SyncState;
+  if (
+    !STATUSES.includes(status) ||
+    ![pending, conflicts, failures].every(Number.isInteger)
+  ) {
+    return null;
+  }
+  return {
+    status,
+    pending,
+    conflicts,
+    failures,
+    error: typeof error === 'string' ? error : undefined,
+  };
+};
+
+// The app window and the sync worker each sync on their own. Counts are
+// read from the database both share, and a run of failures only ends once
+// every renderer's latest sync got through.
+const combineSyncStates = (states: SyncState[]): SyncState => {
+  if (states.length === 0) return IDLE_STATE;
+  const [first] = [...states].sort(
+    (a, b) =>
+      STATUS_PRIORITY.indexOf(a.status) - STATUS_PRIORITY.indexOf(b.status)
+  );
+  const max = (key: 'pending' | 'conflicts' | 'failures') =>
+    Math.max(...states.map((state) => state[key]));
+  return {
+    status: first.status,
+    pending: max('pending'),
+    conflicts: max('conflicts'),
+    failures: max('failures'),
+    error: first.error ?? states.find((state) => state.error)?.error,
+  };
+};
+
+/**
+ * Tray icon, notifications and the application menu. The renderers own
+ * syncing and each report their state over IPC; menu and tray actions go
+ * back to the app window as commands.
+ */
+class DesktopIntegration {
+  private tray: Tray | null = null;
+  private icons = new Map<SyncState['status'], NativeImage>();
+  private state: SyncState = IDLE_STATE;
+  // Latest state reported by each renderer, by webContents id
+  private states = new Map<number, SyncState>();
+  private failureNotified = false;
+  private getWindow: () => BrowserWindow | null = () => null;
+
+  start(getWindow: () => BrowserWindow | null) {
+    this.getWindow = getWindow;
+    Menu.setApplicationMenu(Menu.buildFromTemplate(this.menuTemplate()));
+    // The Developer menu shows the fault scenario in use
+    settingsStore.onChange((settings, previous) => {
+      if (JSON.stringify(settings.faults) !== JSON.stringify(previous.faults)) {
+        Menu.setApplicationMenu(Menu.buildFromTemplate(this.menuTemplate()));
+      }
+    });
+
+    this.tray = new Tray(this.icon(this.state.status));
+    this.tray.on('click', () => this.showWindow());
+    this.updateTray();
+
+    // Encrypted todos lock along with the machine
+    powerMonitor.on('lock-screen', () => this.send('lock'));
+    powerMonitor.on('suspend', () => this.send('lock'));
+
+    listen('sync:state', (sender, value) => {
+      const state = toSyncState(value);
+      if (!state) return;
+      const { id } = sender;
+      if (!this.states.has(id)) {
+        // A renderer that is gone no longer holds the tray in its state
+        sender.once('destroyed', () => {
+          this.states.delete(id);
+          this.setSyncState(combineSyncStates([...this.states.values()]));
+        });
+      }
+      this.states.set(id, state);
+      this.setSyncState(combineSyncStates([...this.states.values()]));
+    });
+  }
+
+  showWindow() {
+    const win = this.getWindow();
+    if (!win) return;
+    if (win.isMinimized()) win.restore();
+    win.show();
+    win.focus();
+  }
+
+  private send(command: AppCommand) {
+    this.getWindow()?.webContents.send('app:command', command);
+  }
+
+  private setSyncState(state: SyncState) {
+    const previous = this.state;
+    this.state = state;
+
+    // Once per run of failures, not on every retry
+    if (state.failures === 0) {
+      this.failureNotified = false;
+    } else if (
+      state.failures >= FAILURES_BEFORE_NOTIFYING &&
+      !this.failureNotified
+    ) {
+      this.failureNotified = true;
+      this.notify(
+        'Sync keeps failing',
+        `${state.error ?? 'The server could not be reached'}. ` +
+          'Your changes are saved and will sync once it works again.'
+      );
+    }
+
+    if (state.conflicts > previous.conflicts) {
+      this.notify(
+        'Conflicts need your attention',
+        `${plural(state.conflicts, 'todo')} changed both here and elsewhere.`
+      );
+    }
+
+    this.updateTray();
+  }
+
+  private notify(title: string, body: string) {
+    if (!Notification.isSupported()) return;
+    const notification = new Notification({ title, body });
+    notification.on('click', () => this.showWindow());
+    notification.show();
+  }
+
+  private icon(status: SyncState['status']) {
+    let icon = this.icons.get(status);
+    if (!icon) {
+      icon = dotIcon(STATUS_COLORS[status]);
+      this.icons.set(status, icon);
+    }
+    return icon;
+  }
+
+  private statusLabel() {
+    const { status, pending } = this.state;
+    switch (status) {
+      case 'syncing':
+        return 'Syncing…';
+      case 'error':
+        return pending > 0
+          ? `Sync failed, ${plural(pending, 'change')} waiting`
+          : 'Sync failed';
+      case 'pending':
+        return `${plural(pending, 'change')} not synced`;
+      default:
+        return 'All changes synced';
+    }
+  }
+
+  private updateTray() {
+    if (!this.tray) return;
+    const { pending, conflicts } = this.state;
+    const label = this.statusLabel();
+
+    this.tray.setImage(this.icon(this.state.status));
+    this.tray.setToolTip(`Todo List: ${label}`);
+    // Shown next to the icon in the macOS menu bar, ignored elsewhere
+    this.tray.setTitle(pending > 0 ? String(pending) : '');
+    this.tray.setContextMenu(
+      Menu.buildFromTemplate([
+        { label, enabled: false },
+        ...(conflicts > 0
+          ? [
+              {
+                label: `${plural(conflicts, 'conflict')} to resolve`,
+                click: () => this.showWindow(),
+              },
+            ]
+          : []),
+        { type: 'separator' },
+        { label: 'Open Todo List', click: () => this.showWindow() },
+        {
+          label: 'Sync Now',
+          enabled: this.state.status !== 'syncing',
+          click: () => this.send('sync-now'),
+        },
+        { type: 'separator' },
+        { label: 'Quit', click: () => app.quit() },
+      ])
+    );
+  }
+
+  private menuTemplate(): MenuItemConstructorOptions[] {
+    const isMac = process.platform === 'darwin';
+    return [
+      ...(isMac ? [{ role: 'appMenu' as const }] : []),
+      {
+        label: 'File',
+        submenu: [
+          {
+            label: 'New Todo',
+            accelerator: 'CmdOrCtrl+N',
+            click: () => {
+              this.showWindow();
+              this.send('new-todo');
+            },
+          },
+          {
+            label: 'Sync Now',
+            accelerator: 'CmdOrCtrl+Shift+S',
+            click: () => this.send('sync-now'),
+          },
+          {
+            label: 'Lock',
+            accelerator: 'CmdOrCtrl+L',
+            click: () => this.send('lock'),
+          },
+          { type: 'separator' },
+          {
+            label: 'Settings…',
+            accelerator: 'CmdOrCtrl+,',
+            click: () => {
+              this.showWindow();
+              this.send('open-settings');
+            },
+          },
+          { type: 'separator' },
+          isMac ? { role: 'close' } : { role: 'quit' },
+        ],
+      },
+      { role: 'editMenu' },
+      {
+        label: 'View',
+        submenu: [
+          ...(isDev
+            ? [
+                { role: 'reload' as const },
+                { role: 'toggleDevTools' as const },
+                { type: 'separator' as const },
+              ]
+            : []),
+          { role: 'resetZoom' },
+          { role: 'zoomIn' },
+          { role: 'zoomOut' },
+          { type: 'separator' },
+          { role: 'togglefullscreen' },
+        ],
+      },
+      { role: 'windowMenu' },
+      // Also shown in packaged builds once faults are set in settings.json
+      ...(isDev || settingsStore.get().faults ? [this.developerMenu()] : []),
+    ];
+  }
+
+  private developerMenu(): MenuItemConstructorOptions {
+    const { faults } = settingsStore.get();
+    const custom =
+      faults && !FAULT_SCENARIOS.some((s) => s.scenario === faults.scenario);
+    return {
+      label: 'Developer',
+      submenu: [
+        { label: 'Network Faults', enabled: false },
+        {
+          label: 'None',
+          type: 'radio',
+          checked: !faults,
+          click: () => this.setFaults(null),
+        },
+        ...FAULT_SCENARIOS.map(
+          (scenario): MenuItemConstructorOptions => ({
+            label: scenario.scenario,
+            type: 'radio',
+            checked: faults?.scenario === scenario.scenario,
+            click: () => this.setFaults(scenario),
+          })
+        ),
+        ...(custom
+          ? [{ label: faults.scenario, type: 'radio' as const, checked: true }]
+          : []),
+      ],
+    };
+  }
+
+  private setFaults(faults: FaultSettings | null) {
+    try {
+      settingsStore.update({ faults });
+    } catch (error) {
+      console.error('Failed to change fault injection:', error);
+    }
+  }
+}
+
+export const desktop = new DesktopIntegration();
@@ -0,0 +1,46 @@
+import type { FaultSettings } from '../src/types/electron';
+
+const NO_FAULTS: Omit<FaultSettings, 'scenario'> = {
+  offline: false,
+  latencyMs: 0,
+  dropPercent: 0,
+  syncStatus: null,
+  truncatePercent: 0,
+  seed: 1,
+};
+
+// Scripted scenarios offered in the Developer menu. Anything else can be
+// set by editing `faults` in settings.json.
+export const FAULT_SCENARIOS: FaultSettings[] = [
+  { ...NO_FAULTS, scenario: 'Offline', offline: true },
+  { ...NO_FAULTS, scenario: 'Slow network', latencyMs: 3000 },
+  { ...NO_FAULTS, scenario: 'Flaky network', latencyMs: 300, dropPercent: 30 },
+  { ...NO_FAULTS, scenario: 'Sync server error', syncStatus: 500 },
+  { ...NO_FAULTS, scenario: 'Sync rate limited', syncStatus: 429 },
+  // The server applies the batch but the results never arrive, as when a
+  // connection drops mid-response
+  { ...NO_FAULTS, scenario: 'Responses cut off', truncatePercent: 50 },
+];
+
+const isPercent = (value: unknown) =>
+  typeof value === 'number' && value >= 0 && value <= 100;
+
+export const isFaultSettings = (value: unknown) => {
+  if (value === null) return true;
+  if (!value || typeof value !== 'object') return false;
+  const faults = value as FaultSettings;
+  return (
+    typeof faults.scenario === 'string' &&
+    typeof faults.offline === 'boolean' &&
+    Number.isInteger(faults.latencyMs) &&
+    faults.latencyMs >= 0 &&
+    faults.latencyMs <= 60000 &&
+    isPercent(faults.dropPercent) &&
+    isPercent(faults.truncatePercent) &&
+    (faults.syncStatus === null ||
+      (Number.isInteger(faults.syncStatus) &&
+        faults.syncStatus >= 400 &&
+        faults.syncStatus <= 599)) &&
+    Number.isInteger(faults.seed)
+  );
+};
@@ -0,0 +1,56 @@
+import { BrowserWindow, dialog } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import type { FileFilter, SaveFileOptions } from '../src/types/electron';
+
+// Opened files are read whole into memory
+const MAX_OPEN_SIZE = 10 * 1024 * 1024;
+
+const isFilterList = (value: unknown): value is FileFilter[] =>
+  Array.isArray(value) &&
+  value.every(
+    (filter) =>
+      typeof filter?.name === 'string' &&
+      Array.isArray(filter.extensions) &&
+      filter.extensions.every((extension: unknown) => typeof extension === 'string')
+  );
+
+// The renderer only supplies the contents; the user picks where they go
+export const saveTextFile = async (win: BrowserWindow | null, options: unknown) => {
+  const { defaultName, content, filters } = (options ?? {}) as SaveFileOptions;
+  if (
+    typeof defaultName !== 'string' ||
+    typeof content !== 'string' ||
+    !isFilterList(filters)
+  ) {
+    throw new Error('Invalid save options');
+  }
+
+  const dialogOptions = { defaultPath: path.basename(defaultName), filters };
+  const { canceled, filePath } = win
+    ? await dialog.showSaveDialog(win, dialogOptions)
+    : await dialog.showSaveDialog(dialogOptions);
+  if (canceled || !filePath) return false;
+  await fs.writeFile(filePath, content, 'utf8');
+  return true;
+};
+
+// Resolves with null if the user cancels
+export const openTextFile = async (win: BrowserWindow | null, filters: unknown) => {
+  if (!isFilterList(filters)) throw new Error('Invalid file filters');
+
+  const dialogOptions = { filters, properties: ['openFile' as const] };
+  const { canceled, filePaths } = win
+    ? await dialog.showOpenDialog(win, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  if (canceled || filePaths.length === 0) return null;
+
+  const [filePath] = filePaths;
+  if ((await fs.stat(filePath)).size > MAX_OPEN_SIZE) {
+    throw new Error('The file is too large to import');
+  }
+  return {
+    name: path.basename(filePath),
+    content: await fs.readFile(filePath, 'utf8'),
+  };
+};
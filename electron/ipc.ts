@@ -0,0 +1,24 @@
+import { ipcMain, IpcMainEvent, IpcMainInvokeEvent, WebContents } from 'electron';
+import { isAppUrl } from './urls.js';
+
+// Messages are only accepted from frames showing the app itself
+const isTrusted = (event: IpcMainEvent | IpcMainInvokeEvent) =>
+  !!event.senderFrame && isAppUrl(event.senderFrame.url);
+
+// Answers a renderer's invoke() on the channel
+export const handle = <T>(channel: string, handler: (...args: unknown[]) => T) => {
+  ipcMain.handle(channel, (event, ...args) => {
+    if (!isTrusted(event)) throw new Error('Untrusted sender');
+    return handler(...args);
+  });
+};
+
+// Receives a renderer's send() on the channel, along with who sent it
+export const listen = (
+  channel: string,
+  listener: (sender: WebContents, ...args: unknown[]) => void
+) => {
+  ipcMain.on(channel, (event, ...args) => {
+    if (isTrusted(event)) listener(event.sender, ...args);
+  });
+};
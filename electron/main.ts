@@ -1,10 +1,25 @@
-import { app, BrowserWindow } from 'electron';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import { app, BrowserWindow, session, shell } from 'electron';
 import isDev from 'electron-is-dev';
+import { desktop } from './desktop.js';
+import { openTextFile, saveTextFile } from './files.js';
+import { handle } from './ipc.js';
+import { networkMonitor } from './networkMonitor.js';
+import { settingsStore } from './settings.js';
+import { snapshotStore } from './snapshots.js';
+import { syncScheduler } from './syncScheduler.js';
+import { syncWorker } from './syncWorker.js';
+import { DEV_SERVER_URL, INDEX_HTML, PRELOAD, isAppUrl } from './urls.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+let mainWindow: BrowserWindow | null = null;
+// Closing the window only hides it to the tray until the app really quits
+let isQuitting = false;
+
+// External links open in the user's browser, never inside the app
+const openExternal = (url: string) => {
+  if (/^https?:\/\//.test(url)) {
+    shell.openExternal(url);
+  }
+};
 
 function createWindow() {
   const win = new BrowserWindow({
@@ -13,23 +28,88 @@ function createWindow() {
     minWidth: 800,
     minHeight: 600,
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false
+      preload: PRELOAD,
+      contextIsolation: true,
+      sandbox: true,
+      nodeIntegration: false,
+      webviewTag: false,
+      // Timers keep their pace while hidden in the tray, so encrypted
+      // todos, which only this window can unlock, keep syncing too
+      backgroundThrottling: false,
     },
     backgroundColor: '#F9FAFB', // Tailwind gray-50
   });
+  mainWindow = win;
+
+  // Closing hides the window to the tray; the sync worker syncs either way
+  win.on('close', (event) => {
+    if (!isQuitting) {
+      event.preventDefault();
+      win.hide();
+    }
+  });
+  win.on('closed', () => {
+    mainWindow = null;
+  });
 
   // In development, load from the Vite dev server
   if (isDev) {
-    win.loadURL('http://localhost:5173');
+    win.loadURL(DEV_SERVER_URL);
     win.webContents.openDevTools();
   } else {
     // In production, load the built index.html file
-    win.loadFile(path.join(__dirname, '../dist/index.html'));
+    win.loadFile(INDEX_HTML);
   }
 }
 
-app.whenReady().then(createWindow);
+// Applies to every window, including any opened later
+app.on('web-contents-created', (_event, contents) => {
+  contents.setWindowOpenHandler(({ url }) => {
+    openExternal(url);
+    return { action: 'deny' };
+  });
+
+  contents.on('will-navigate', (event, url) => {
+    if (!isAppUrl(url)) {
+      event.preventDefault();
+      openExternal(url);
+    }
+  });
+  contents.on('will-redirect', (event, url) => {
+    if (!isAppUrl(url)) event.preventDefault();
+  });
+  contents.on('will-attach-webview', (event) => event.preventDefault());
+});
+
+handle('app:getVersion', () => app.getVersion());
+handle('network:getStatus', () => networkMonitor.getStatus());
+handle('network:check', () => networkMonitor.check());
+handle('settings:get', () => settingsStore.get());
+handle('settings:update', (changes) => settingsStore.update(changes));
+handle('file:save', (options) => saveTextFile(mainWindow, options));
+handle('file:open', (filters) => openTextFile(mainWindow, filters));
+handle('snapshot:save', (info, data) => snapshotStore.save(info, data));
+handle('snapshot:list', () => snapshotStore.list());
+handle('snapshot:read', (id) => snapshotStore.read(id));
+
+app.whenReady().then(() => {
+  // The renderer never needs camera, geolocation or similar permissions;
+  // writing to the clipboard is for copying diagnostics
+  session.defaultSession.setPermissionRequestHandler(
+    (_contents, permission, callback) =>
+      callback(permission === 'clipboard-sanitized-write')
+  );
+  networkMonitor.start();
+  createWindow();
+  desktop.start(() => mainWindow);
+  syncWorker.start();
+  syncScheduler.start();
+  // After the scheduler's handler, which holds the quit while a sync
+  // finishes; the window must stay until the quit really goes ahead
+  app.on('before-quit', (event) => {
+    if (!event.defaultPrevented) isQuitting = true;
+  });
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -38,7 +118,10 @@ app.on('window-all-closed', () => {
 });
 
 app.on('activate', () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
+  // The hidden sync worker is a window too, so look for the app window
+  if (!mainWindow) {
     createWindow();
+  } else {
+    desktop.showWindow();
   }
-}); 
\ No newline at end of file
+});
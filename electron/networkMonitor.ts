@@ -0,0 +1,93 @@
+import { BrowserWindow, net, powerMonitor } from 'electron';
+import type { NetworkStatus } from '../src/types/electron';
+import { settingsStore } from './settings.js';
+
+const PROBE_TIMEOUT = 5000;
+const ONLINE_INTERVAL = 30000;
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 60000;
+
+/**
+ * Works out whether the sync server can actually be reached, rather than
+ * trusting the OS's idea of "online", and tells every window when that
+ * changes.
+ */
+class NetworkMonitor {
+  private status: NetworkStatus | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private failures = 0;
+  private probing: Promise<NetworkStatus> | null = null;
+
+  start() {
+    powerMonitor.on('resume', () => this.check());
+    settingsStore.onChange((settings, previous) => {
+      if (
+        settings.serverUrl !== previous.serverUrl ||
+        settings.faults?.offline !== previous.faults?.offline
+      ) {
+        this.check();
+      }
+    });
+    this.check();
+  }
+
+  // Waits for the first probe if none has finished yet
+  getStatus() {
+    return this.status ?? this.check();
+  }
+
+  // Probes now; calls made while a probe is running share its result
+  check() {
+    this.probing ??= this.probe().finally(() => {
+      this.probing = null;
+    });
+    return this.probing;
+  }
+
+  private async probe() {
+    if (this.timer) clearTimeout(this.timer);
+
+    // Fault injection can pretend the network is gone
+    const status: NetworkStatus =
+      !net.isOnline() || settingsStore.get().faults?.offline
+        ? 'offline'
+        : (await this.reachServer())
+        ? 'online'
+        : 'unreachable';
+    this.failures = status === 'online' ? 0 : this.failures + 1;
+    this.setStatus(status);
+
+    // Probe more often while the server is away so sync resumes quickly,
+    // backing off the longer it stays away
+    const delay =
+      status === 'online'
+        ? ONLINE_INTERVAL
+        : Math.min(RETRY_BASE_DELAY * 2 ** (this.failures - 1), RETRY_MAX_DELAY);
+    this.timer = setTimeout(() => this.check(), delay);
+    return status;
+  }
+
+  private async reachServer() {
+    try {
+      const { serverUrl } = settingsStore.get();
+      const response = await net.fetch(`${serverUrl}/health`, {
+        cache: 'no-store',
+        signal: AbortSignal.timeout(PROBE_TIMEOUT),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private setStatus(status: NetworkStatus) {
+    if (status === this.status) return;
+    console.log(`Network status: ${status}`);
+    this.status = status;
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('network:status', status);
+    }
+  }
+}
+
+export const networkMonitor = new NetworkMonitor();
@@ -0,0 +1,70 @@
+// Runs in a sandboxed renderer, where only a few modules can be required and
+// ES modules aren't supported, hence the .cts extension
+import { contextBridge, ipcRenderer } from 'electron';
+import type { IpcRendererEvent } from 'electron';
+import type {
+  AppCommand,
+  AppSettings,
+  ElectronApi,
+  NetworkStatus,
+} from '../src/types/electron';
+
+const api: ElectronApi = {
+  platform: process.platform,
+  getVersion: () => ipcRenderer.invoke('app:getVersion'),
+  getNetworkStatus: () => ipcRenderer.invoke('network:getStatus'),
+  checkNetwork: () => ipcRenderer.invoke('network:check'),
+  onNetworkStatus: (listener) => {
+    // The event object is kept from the renderer; it exposes ipcRenderer
+    const handler = (_event: IpcRendererEvent, status: NetworkStatus) =>
+      listener(status);
+    ipcRenderer.on('network:status', handler);
+    return () => {
+      ipcRenderer.removeListener('network:status', handler);
+    };
+  },
+  reportSyncState: (state) => ipcRenderer.send('sync:state', state),
+  onCommand: (listener) => {
+    const handler = (_event: IpcRendererEvent, command: AppCommand) =>
+      listener(command);
+    ipcRenderer.on('app:command', handler);
+    return () => {
+      ipcRenderer.removeListener('app:command', handler);
+    };
+  },
+  onSyncRequest: (listener) => {
+    const handler = () => listener();
+    ipcRenderer.on('sync:run', handler);
+    return () => {
+      ipcRenderer.removeListener('sync:run', handler);
+    };
+  },
+  onBeforeQuit: (listener) => {
+    // Quit goes ahead even if the listener fails
+    const handler = () =>
+      listener()
+        .catch((error) => console.error('Failed to prepare for quit:', error))
+        .finally(() => ipcRenderer.send('app:readyToQuit'));
+    ipcRenderer.on('app:beforeQuit', handler);
+    return () => {
+      ipcRenderer.removeListener('app:beforeQuit', handler);
+    };
+  },
+  getSettings: () => ipcRenderer.invoke('settings:get'),
+  updateSettings: (changes) => ipcRenderer.invoke('settings:update', changes),
+  onSettingsChanged: (listener) => {
+    const handler = (_event: IpcRendererEvent, settings: AppSettings) =>
+      listener(settings);
+    ipcRenderer.on('settings:changed', handler);
+    return () => {
+      ipcRenderer.removeListener('settings:changed', handler);
+    };
+  },
+  saveFile: (options) => ipcRenderer.invoke('file:save', options),
+  openFile: (filters) => ipcRenderer.invoke('file:open', filters),
+  saveSnapshot: (info, data) => ipcRenderer.invoke('snapshot:save', info, data),
+  listSnapshots: () => ipcRenderer.invoke('snapshot:list'),
+  readSnapshot: (id) => ipcRenderer.invoke('snapshot:read', id),
+};
+
+contextBridge.exposeInMainWorld('api', api);
@@ -0,0 +1,122 @@
+import { app, BrowserWindow } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import type { AppSettings } from '../src/types/electron';
+import { isFaultSettings } from './faults.js';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  serverUrl: process.env.API_BASE_URL ?? 'http://localhost:5000/api',
+  autoSync: true,
+  syncIntervalMinutes: 5,
+  maxRetries: 3,
+  maxRetryDelaySeconds: 30,
+  autoLockMinutes: 15,
+  faults: null,
+};
+
+type SettingsListener = (settings: AppSettings, previous: AppSettings) => void;
+
+const isHttpUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const inRange = (min: number, max: number) => (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// Ranges keep a typo from, say, syncing every second
+const CHECKS: { [K in keyof AppSettings]: [(value: unknown) => boolean, string] } = {
+  serverUrl: [isHttpUrl, 'Server URL must be an http or https address'],
+  autoSync: [(value) => typeof value === 'boolean', 'Auto-sync must be on or off'],
+  syncIntervalMinutes: [inRange(1, 1440), 'Sync interval must be 1 to 1440 minutes'],
+  maxRetries: [inRange(0, 10), 'Retries must be 0 to 10'],
+  maxRetryDelaySeconds: [inRange(1, 3600), 'Retry delay must be 1 to 3600 seconds'],
+  autoLockMinutes: [inRange(0, 1440), 'Auto-lock must be 0 to 1440 minutes'],
+  faults: [isFaultSettings, 'Fault injection settings are invalid'],
+};
+
+// Takes the valid fields of `value` over `fallback` and lists the invalid ones
+const merge = (value: unknown, fallback: AppSettings) => {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const settings = { ...fallback } as Record<keyof AppSettings, unknown>;
+  const errors: string[] = [];
+  for (const [key, [check, message]] of Object.entries(CHECKS)) {
+    if (!(key in input)) continue;
+    if (check(input[key])) {
+      settings[key as keyof AppSettings] = input[key];
+    } else {
+      errors.push(message);
+    }
+  }
+  // Paths are appended to it, so no trailing slash
+  settings.serverUrl = (settings.serverUrl as string).replace(/\/+$/, '');
+  return { settings: settings as AppSettings, errors };
+};
+
+/**
+ * Settings saved as JSON in the user data folder. The main process owns
+ * them; renderers read and change them over IPC and are told of every
+ * change.
+ */
+class SettingsStore {
+  private settings: AppSettings | null = null;
+  private listeners = new Set<SettingsListener>();
+
+  private get file() {
+    return path.join(app.getPath('userData'), 'settings.json');
+  }
+
+  get() {
+    this.settings ??= this.load();
+    return this.settings;
+  }
+
+  update(changes: unknown) {
+    const previous = this.get();
+    const { settings, errors } = merge(changes, previous);
+    if (errors.length > 0) throw new Error(errors.join('. '));
+
+    // Written aside and renamed, so a crash never leaves half a file
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(settings, null, 2));
+    fs.renameSync(`${this.file}.tmp`, this.file);
+    this.settings = settings;
+
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('settings:changed', settings);
+    }
+    this.listeners.forEach((listener) => listener(settings, previous));
+    return settings;
+  }
+
+  onChange(listener: SettingsListener) {
+    this.listeners.add(listener);
+  }
+
+  // Fields that are missing or invalid, e.g. after a hand edit, keep their
+  // defaults
+  private load() {
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      const { settings, errors } = merge(saved, DEFAULT_SETTINGS);
+      if (errors.length > 0) {
+        console.warn(`Ignoring invalid settings: ${errors.join('. ')}`);
+      }
+      return settings;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load settings, using defaults:', error);
+      }
+      return DEFAULT_SETTINGS;
+    }
+  }
+}
+
+export const settingsStore = new SettingsStore();
@@ -0,0 +1,165 @@
+import { app } from 'electron';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { SnapshotInfo, SnapshotReason } from '../src/types/electron';
+
+// Older snapshots are deleted as new ones are saved. Those taken before a
+// restore or a recovery are counted apart, so routine ones never push out
+// the copy a restore was undone from.
+const MAX_SNAPSHOTS = 10;
+const MAX_SAFETY_SNAPSHOTS = 5;
+const SAFETY_REASONS: SnapshotReason[] = ['before-restore', 'before-recovery'];
+// Bumped if the file layout changes
+const FILE_FORMAT = 1;
+const ID_PATTERN = /^snapshot-\d+$/;
+const REASONS: SnapshotReason[] = [
+  'scheduled',
+  'manual',
+  'quit',
+  'before-restore',
+  'before-recovery',
+];
+
+// On disk, the info sits next to the database copy and its checksum
+type SnapshotFile = SnapshotInfo & {
+  format: number;
+  checksum: string;
+  data: string;
+};
+
+const checksum = (data: string) =>
+  createHash('sha256').update(data, 'utf8').digest('hex');
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Copies of the renderer's database, saved as JSON in the user data folder
+ * so unsynced work survives a cleared cache or a damaged profile. The
+ * renderer takes the copies and restores them; this only stores them.
+ */
+class SnapshotStore {
+  private lastTakenAt = 0;
+
+  private get dir() {
+    return path.join(app.getPath('userData'), 'snapshots');
+  }
+
+  async save(info: unknown, data: unknown): Promise<SnapshotInfo> {
+    const { reason, dbVersion, todos, pending } = (info ?? {}) as SnapshotInfo;
+    if (
+      !REASONS.includes(reason) ||
+      !isCount(dbVersion) ||
+      !isCount(todos) ||
+      !isCount(pending) ||
+      typeof data !== 'string'
+    ) {
+      throw new Error('Invalid snapshot');
+    }
+
+    // Ids come from the time, so two in the same millisecond can't collide
+    const takenAt = Math.max(Date.now(), this.lastTakenAt + 1);
+    this.lastTakenAt = takenAt;
+    const snapshot: SnapshotInfo = {
+      id: `snapshot-${takenAt}`,
+      takenAt,
+      reason,
+      dbVersion,
+      todos,
+      pending,
+    };
+    const file: SnapshotFile = {
+      ...snapshot,
+      format: FILE_FORMAT,
+      checksum: checksum(data),
+      data,
+    };
+
+    // Written aside and renamed, so a crash never leaves half a file
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.path(snapshot.id);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(file));
+    await fs.rename(`${target}.tmp`, target);
+    await this.rotate();
+    return snapshot;
+  }
+
+  // Snapshots that pass their checks, newest first
+  async list() {
+    const snapshots: SnapshotInfo[] = [];
+    for (const id of await this.ids()) {
+      try {
+        snapshots.push((await this.load(id)).info);
+      } catch (error) {
+        console.warn(`Skipping damaged snapshot ${id}:`, error);
+      }
+    }
+    return snapshots;
+  }
+
+  async read(id: unknown) {
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+      throw new Error('Invalid snapshot id');
+    }
+    return (await this.load(id)).data;
+  }
+
+  private path(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  // Newest first
+  private async ids() {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return names
+      .map((name) => name.replace(/\.json$/, ''))
+      .filter((id) => ID_PATTERN.test(id))
+      .sort((a, b) => Number(b.slice(9)) - Number(a.slice(9)));
+  }
+
+  private async load(id: string) {
+    const file = JSON.parse(await fs.readFile(this.path(id), 'utf8')) as SnapshotFile;
+    if (file.format !== FILE_FORMAT || typeof file.data !== 'string') {
+      throw new Error('Unknown snapshot format');
+    }
+    if (file.checksum !== checksum(file.data)) {
+      throw new Error('Checksum mismatch');
+    }
+    const { takenAt, reason, dbVersion, todos, pending, data } = file;
+    const info: SnapshotInfo = { id, takenAt, reason, dbVersion, todos, pending };
+    return { info, data };
+  }
+
+  // A damaged file has no reason to go by and counts as a routine one
+  private async reasonOf(id: string) {
+    try {
+      const file = JSON.parse(await fs.readFile(this.path(id), 'utf8')) as SnapshotFile;
+      return file.reason;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async rotate() {
+    let routine = 0;
+    let safety = 0;
+    const stale: string[] = [];
+    for (const id of await this.ids()) {
+      const reason = await this.reasonOf(id);
+      const kept =
+        reason && SAFETY_REASONS.includes(reason)
+          ? ++safety <= MAX_SAFETY_SNAPSHOTS
+          : ++routine <= MAX_SNAPSHOTS;
+      if (!kept) stale.push(id);
+    }
+    await Promise.all(stale.map((id) => fs.rm(this.path(id), { force: true })));
+  }
+}
+
+export const snapshotStore = new SnapshotStore();
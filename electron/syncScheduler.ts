@@ -0,0 +1,85 @@
+import { app, BrowserWindow, powerMonitor } from 'electron';
+import { listen } from './ipc.js';
+import { settingsStore } from './settings.js';
+
+// Longest a quit waits for the batch in flight
+const QUIT_TIMEOUT = 15000;
+
+/**
+ * Decides when the renderers sync, and holds a quit until the batch in
+ * flight has finished. Sync requests go to every window, the sync worker
+ * (see syncWorker.ts) and the app window alike; whichever can sync takes the
+ * sync lock, so syncing carries on while the app window is hidden, closed
+ * or locked. Connectivity changes reach each renderer's SyncService directly
+ * from the network monitor.
+ */
+class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private quitTimer: NodeJS.Timeout | null = null;
+  private readyToQuit = false;
+  // Windows still finishing their sync before a quit
+  private quitReplies = 0;
+
+  start() {
+    this.schedule();
+    settingsStore.onChange((settings, previous) => {
+      if (
+        settings.autoSync !== previous.autoSync ||
+        settings.syncIntervalMinutes !== previous.syncIntervalMinutes
+      ) {
+        this.schedule();
+      }
+    });
+    powerMonitor.on('resume', () => this.requestSync());
+
+    app.on('before-quit', (event) => {
+      if (this.readyToQuit) return;
+      // Nothing can be in flight in a renderer that isn't running
+      const windows = this.runningWindows();
+      if (windows.length === 0) return;
+      event.preventDefault();
+      if (this.quitTimer) return;
+      this.quitReplies = windows.length;
+      for (const win of windows) win.webContents.send('app:beforeQuit');
+      this.quitTimer = setTimeout(() => this.quit(), QUIT_TIMEOUT);
+    });
+    listen('app:readyToQuit', () => {
+      if (--this.quitReplies <= 0) this.quit();
+    });
+  }
+
+  requestSync() {
+    if (!settingsStore.get().autoSync) return;
+    for (const win of this.runningWindows()) {
+      win.webContents.send('sync:run');
+    }
+  }
+
+  private runningWindows() {
+    return BrowserWindow.getAllWindows().filter(
+      (win) => !win.webContents.isCrashed() && !win.webContents.isLoading()
+    );
+  }
+
+  private schedule() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    const { autoSync, syncIntervalMinutes } = settingsStore.get();
+    if (autoSync) {
+      this.timer = setInterval(
+        () => this.requestSync(),
+        syncIntervalMinutes * 60 * 1000
+      );
+    }
+  }
+
+  private quit() {
+    if (!this.quitTimer || this.readyToQuit) return;
+    this.readyToQuit = true;
+    clearTimeout(this.quitTimer);
+    if (this.timer) clearInterval(this.timer);
+    app.quit();
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
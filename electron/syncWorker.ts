@@ -0,0 +1,77 @@
+import { app, BrowserWindow } from 'electron';
+import isDev from 'electron-is-dev';
+import { DEV_SERVER_URL, INDEX_HTML, PRELOAD } from './urls.js';
+
+// The renderer starts as a sync worker, without any UI, at this hash
+const WORKER_HASH = 'sync-worker';
+// Wait before reopening a worker that crashed, so a crash loop can't spin
+const RESTART_DELAY = 5000;
+
+/**
+ * A window that is never shown and runs only the renderer's SyncService.
+ * The outbox lives in IndexedDB, which neither the main process nor a
+ * utility process can open, so the worker is a renderer of its own that
+ * opens the same database as the app window and takes turns with it
+ * through the sync lock. Syncing no longer depends on the app window being
+ * open or visible.
+ *
+ * Encrypted todos are unlocked in the app window only, so while they are
+ * encrypted it is the app window's syncs that get through.
+ */
+class SyncWorker {
+  private win: BrowserWindow | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private quitting = false;
+
+  start() {
+    app.on('before-quit', () => {
+      this.quitting = true;
+    });
+    this.open();
+  }
+
+  get window() {
+    return this.win;
+  }
+
+  private open() {
+    const win = new BrowserWindow({
+      show: false,
+      webPreferences: {
+        preload: PRELOAD,
+        contextIsolation: true,
+        sandbox: true,
+        nodeIntegration: false,
+        webviewTag: false,
+        // Hidden for good, so its timers must not be throttled
+        backgroundThrottling: false,
+      },
+    });
+    this.win = win;
+
+    win.webContents.on('render-process-gone', (_event, details) => {
+      console.error('Sync worker stopped:', details.reason);
+      if (!win.isDestroyed()) win.destroy();
+    });
+    win.on('closed', () => {
+      if (this.win === win) this.win = null;
+      if (!this.quitting) this.restartLater();
+    });
+
+    if (isDev) {
+      win.loadURL(`${DEV_SERVER_URL}/#${WORKER_HASH}`);
+    } else {
+      win.loadFile(INDEX_HTML, { hash: WORKER_HASH });
+    }
+  }
+
+  private restartLater() {
+    if (this.restartTimer) return;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (!this.quitting) this.open();
+    }, RESTART_DELAY);
+  }
+}
+
+export const syncWorker = new SyncWorker();
@@ -0,0 +1,18 @@
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import isDev from 'electron-is-dev';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Where `npm run electron:dev` serves the renderer; Vite's default port
+export const DEV_SERVER_URL =
+  process.env.VITE_DEV_SERVER_URL?.replace(/\/+$/, '') ?? 'http://localhost:5173';
+export const INDEX_HTML = path.join(__dirname, '../dist/index.html');
+export const PRELOAD = path.join(__dirname, 'preload.cjs');
+
+// Only the app itself may be loaded; everything else is external
+export const isAppUrl = (url: string) =>
+  isDev
+    ? url.startsWith(`${DEV_SERVER_URL}/`) || url === DEV_SERVER_URL
+    : url.split(/[?#]/)[0] === pathToFileURL(INDEX_HTML).href;
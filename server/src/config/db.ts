@@ -10,4 +10,16 @@ const connectDB = async () => {
   }
 };
 
+let transactionSupport: Promise<boolean> | null = null;
+
+// Transactions need a replica set or sharded cluster; a standalone server,
+// the usual local setup, doesn't have them
+export const supportsTransactions = () => {
+  transactionSupport ??= mongoose.connection.db!.admin()
+    .command({ hello: 1 })
+    .then((hello) => Boolean(hello.setName) || hello.msg === 'isdbgrid')
+    .catch(() => false);
+  return transactionSupport;
+};
+
 export default connectDB; 
\ No newline at end of file
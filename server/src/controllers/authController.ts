@@ -0,0 +1,55 @@
+import { Request, Response } from "express";
+import type { AuthResponse } from "../../../shared/api";
+import User, { IUser } from "../models/User";
+import { hashPassword, signToken, verifyPassword } from "../utils/auth";
+import { isDuplicateKeyError, sendError } from "../utils/errors";
+
+type Credentials = { email: string; password: string };
+
+const toAuthResponse = (user: IUser): AuthResponse => ({
+  token: signToken(String(user._id)),
+  user: { id: String(user._id), email: user.email },
+});
+
+export const signup = async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body as Credentials;
+    if (await User.exists({ email })) {
+      return sendError(res, 409, "email_taken", "Email is already registered");
+    }
+
+    const user = await User.create({
+      email,
+      passwordHash: await hashPassword(password),
+    });
+    res.status(201).json(toAuthResponse(user));
+  } catch (error) {
+    // Lost a race with another signup for the same email
+    if (isDuplicateKeyError(error)) {
+      return sendError(res, 409, "email_taken", "Email is already registered");
+    }
+    console.error("Error signing up:", error);
+    sendError(res, 500, "internal_error", "Error signing up");
+  }
+};
+
+export const login = async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body as Credentials;
+    const user = await User.findOne({ email });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return sendError(
+        res,
+        401,
+        "invalid_credentials",
+        "Invalid email or password"
+      );
+    }
+
+    res.json(toAuthResponse(user));
+  } catch (error) {
+    console.error("Error logging in:", error);
+    sendError(res, 500, "internal_error", "Error logging in");
+  }
+};
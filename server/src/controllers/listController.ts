@@ -0,0 +1,134 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import type { ApiList } from "../../../shared/api";
+import List, { IList, ListRole } from "../models/List";
+import User from "../models/User";
+import { sendError } from "../utils/errors";
+import { getRole } from "../utils/permissions";
+
+// Lists as seen by one member: their own role plus everyone's membership
+const toListDoc = async (
+  list: IList,
+  userId: string
+): Promise<ApiList<Date>> => {
+  const users = await User.find(
+    { _id: { $in: list.members.map((member) => member.userId) } },
+    { email: 1 }
+  );
+  const emails = new Map(users.map((user) => [String(user._id), user.email]));
+
+  return {
+    _id: String(list._id),
+    name: list.name,
+    role: getRole(list, userId),
+    members: list.members.map((member) => ({
+      userId: member.userId.toString(),
+      email: emails.get(member.userId.toString()),
+      role: member.role,
+    })),
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+  };
+};
+
+// Loads a list the caller belongs to, answering 404 otherwise
+const findMemberList = async (req: Request, res: Response) => {
+  const list = await List.findById(req.params.id);
+  if (!list || !getRole(list, req.userId!)) {
+    sendError(res, 404, "not_found", "List not found");
+    return null;
+  }
+  return list;
+};
+
+export const getLists = async (req: Request, res: Response) => {
+  try {
+    const lists = await List.find({ "members.userId": req.userId }).sort({
+      createdAt: 1,
+    });
+    res.json(await Promise.all(lists.map((list) => toListDoc(list, req.userId!))));
+  } catch (error) {
+    console.error("Error fetching lists:", error);
+    sendError(res, 500, "internal_error", "Error fetching lists");
+  }
+};
+
+export const createList = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body as { name: string };
+    const list = await List.create({
+      name,
+      members: [{ userId: req.userId, role: "owner" }],
+    });
+    res.status(201).json(await toListDoc(list, req.userId!));
+  } catch (error) {
+    console.error("Error creating list:", error);
+    sendError(res, 500, "internal_error", "Error creating list");
+  }
+};
+
+export const addMember = async (req: Request, res: Response) => {
+  try {
+    const list = await findMemberList(req, res);
+    if (!list) return;
+    if (getRole(list, req.userId!) !== "owner") {
+      return sendError(res, 403, "forbidden", "Only owners can invite members");
+    }
+
+    const { email, role } = req.body as { email: string; role: ListRole };
+    const user = await User.findOne({ email });
+    if (!user) {
+      return sendError(res, 404, "not_found", "No user with that email");
+    }
+
+    // Inviting an existing member changes their role
+    const member = list.members.find(
+      (m) => m.userId.toString() === String(user._id)
+    );
+    if (member) {
+      member.role = role;
+    } else {
+      list.members.push({
+        userId: user._id as mongoose.Types.ObjectId,
+        role,
+      });
+    }
+    await list.save();
+    res.json(await toListDoc(list, req.userId!));
+  } catch (error) {
+    console.error("Error adding member:", error);
+    sendError(res, 500, "internal_error", "Error adding member");
+  }
+};
+
+export const removeMember = async (req: Request, res: Response) => {
+  try {
+    const list = await findMemberList(req, res);
+    if (!list) return;
+
+    // Owners can remove anyone; other members can only leave
+    const { userId } = req.params;
+    if (getRole(list, req.userId!) !== "owner" && userId !== req.userId) {
+      return sendError(res, 403, "forbidden", "Only owners can remove members");
+    }
+
+    const remaining = list.members.filter(
+      (member) => member.userId.toString() !== userId
+    );
+    if (!remaining.some((member) => member.role === "owner")) {
+      return sendError(
+        res,
+        400,
+        "last_owner",
+        "A list must keep at least one owner"
+      );
+    }
+
+    list.members = remaining;
+    await list.save();
+    res.json(await toListDoc(list, req.userId!));
+  } catch (error) {
+    console.error("Error removing member:", error);
+    sendError(res, 500, "internal_error", "Error removing member");
+  }
+};
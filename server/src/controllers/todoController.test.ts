@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import Todo from "../models/Todo";
+import {
+  createTodo,
+  getChanges,
+  importTodos,
+  syncTodos,
+} from "./todoController";
+
+// A standalone server, so items are applied one at a time
+vi.mock("../config/db", () => ({ supportsTransactions: async () => false }));
+vi.mock("../utils/permissions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/permissions")>()),
+  visibleTodosFilter: async (userId: string) => ({ ownerId: userId }),
+}));
+
+const OWNER_ID = "65f000000000000000000001";
+
+// Runs a handler and returns the response body
+const call = async (
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  req: object
+) => {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  await handler(
+    { userId: OWNER_ID, ...req } as unknown as Request,
+    res as unknown as Response
+  );
+  return res.json.mock.calls[0][0];
+};
+
+// What MongoDB throws for a client id another user's todo already has
+const duplicateKeyError = () =>
+  Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+
+const sync = (todos: unknown[]) => call(syncTodos, { body: { todos } });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("syncTodos", () => {
+  it("keeps the client's timestamps when creating a todo", async () => {
+    vi.spyOn(Todo.collection, "findOne").mockResolvedValue(null);
+    const findOneAndUpdate = vi
+      .spyOn(Todo.collection, "findOneAndUpdate")
+      .mockImplementation(async (_filter, update) => ({
+        _id: new mongoose.Types.ObjectId(),
+        ...(update as { $setOnInsert: object }).$setOnInsert,
+        version: 1,
+      }));
+
+    const { results } = await sync([
+      {
+        opId: 1,
+        action: "create",
+        clientId: "client-1",
+        title: "Write report",
+        completed: false,
+        createdAt: "2024-03-01T10:00:00.000Z",
+        updatedAt: "2024-03-02T10:00:00.000Z",
+      },
+    ]);
+
+    // A path in both $set and $setOnInsert is rejected by MongoDB
+    const update = findOneAndUpdate.mock.calls[0][1] as Record<
+      string,
+      Record<string, unknown>
+    >;
+    expect(update.$set).toBeUndefined();
+    expect(update.$setOnInsert).toMatchObject({
+      createdAt: new Date("2024-03-01T10:00:00.000Z"),
+      updatedAt: new Date("2024-03-02T10:00:00.000Z"),
+    });
+    expect(results[0]).toMatchObject({ opId: 1, status: "applied" });
+  });
+
+  it("rejects a create whose client id someone else uses for good", async () => {
+    vi.spyOn(Todo.collection, "findOne").mockResolvedValue(null);
+    vi.spyOn(Todo.collection, "findOneAndUpdate").mockRejectedValue(
+      duplicateKeyError()
+    );
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const { results } = await sync([
+      {
+        opId: 1,
+        action: "create",
+        clientId: "taken",
+        title: "Write report",
+        completed: false,
+        createdAt: "2024-03-01T10:00:00.000Z",
+        updatedAt: "2024-03-01T10:00:00.000Z",
+      },
+    ]);
+
+    expect(results[0]).toMatchObject({
+      opId: 1,
+      status: "rejected",
+      code: "duplicate",
+    });
+  });
+});
+
+describe("createTodo", () => {
+  it("answers 409 for a client id someone else uses", async () => {
+    vi.spyOn(Todo.collection, "findOneAndUpdate").mockRejectedValue(
+      duplicateKeyError()
+    );
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+
+    await createTodo(
+      {
+        userId: OWNER_ID,
+        body: { clientId: "taken", title: "Write report", completed: false },
+      } as unknown as Request,
+      res as unknown as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "duplicate" })
+    );
+  });
+});
+
+describe("getChanges", () => {
+  const todoAt = (syncedAt: number) =>
+    new Todo({ ownerId: OWNER_ID, title: "Todo", syncedAt: new Date(syncedAt) });
+
+  // Answers the change feed query with these todos
+  const serve = (todos: InstanceType<typeof Todo>[]) =>
+    vi.spyOn(Todo, "find").mockReturnValue({
+      sort: () => ({ limit: async () => todos }),
+    } as never);
+
+  it("keeps the issue time of the catch-up until its last page", async () => {
+    const issuedAt = Date.now() - 60 * 60 * 1000;
+    const since = `1000:${new mongoose.Types.ObjectId()}:${issuedAt}`;
+
+    serve([todoAt(2000), todoAt(3000)]);
+    const partway = await call(getChanges, { query: { since, limit: "1" } });
+    expect(partway.hasMore).toBe(true);
+    expect(partway.cursor.split(":")[2]).toBe(String(issuedAt));
+
+    serve([todoAt(3000)]);
+    const caughtUp = await call(getChanges, {
+      query: { since: partway.cursor, limit: "1" },
+    });
+    expect(caughtUp.hasMore).toBe(false);
+    expect(Number(caughtUp.cursor.split(":")[2])).toBeGreaterThan(issuedAt);
+  });
+});
+
+describe("importTodos", () => {
+  it("counts a client id repeated within the file as a duplicate", async () => {
+    vi.spyOn(Todo, "find").mockResolvedValue([] as never);
+    const insertMany = vi
+      .spyOn(Todo, "insertMany")
+      .mockImplementation(async (docs) => docs as never);
+
+    const body = await call(importTodos, {
+      body: {
+        todos: [
+          { clientId: "repeated", title: "First", completed: false },
+          { clientId: "repeated", title: "Second", completed: false },
+        ],
+      },
+    });
+
+    expect(insertMany.mock.calls[0][0]).toHaveLength(1);
+    expect(body).toMatchObject({
+      created: [{ index: 0, title: "First" }],
+      duplicates: [{ index: 1, title: "Second" }],
+    });
+  });
+});
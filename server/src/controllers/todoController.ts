@@ -1,27 +1,115 @@
+import { randomUUID } from "crypto";
 import { Request, Response } from "express";
+import mongoose, { ClientSession } from "mongoose";
+import type {
+  ApiTodo,
+  ChangesResponse,
+  SyncResponse,
+  SyncResult,
+} from "../../../shared/api";
 import Todo, { ITodo, TodoDoc } from "../models/Todo";
+import { ListRole } from "../models/List";
+import {
+  TodoFields,
+  mergeTodoFields,
+  pickTodoFields,
+} from "../utils/merge";
+import { broadcastTodoChanges, onTodoChanges } from "../utils/todoEvents";
+import {
+  isDuplicateKeyError,
+  sendError,
+  toErrorDetails,
+} from "../utils/errors";
+import { ImportItem, SyncItem, syncItemSchema } from "../schemas/todo";
+import { supportsTransactions } from "../config/db";
+import { getTombstoneRetentionMs } from "../utils/tombstones";
+import { EXPORT_CONTENT, ExportFormat, formatTodos } from "../utils/transfer";
+import {
+  canWrite,
+  getAudience,
+  getTodoRole,
+  visibleTodosFilter,
+} from "../utils/permissions";
+
+// Tells everyone who can see the todos about the change
+const notifyTodoChanges = async (userId: string, todos: TodoDoc[]) => {
+  const byList = new Map<string, TodoDoc[]>();
+  for (const todo of todos) {
+    const key = todo.listId ? String(todo.listId) : "";
+    byList.set(key, [...(byList.get(key) ?? []), todo]);
+  }
+  for (const [listId, listTodos] of byList) {
+    broadcastTodoChanges(await getAudience(listId, userId), listTodos);
+  }
+};
 
 export const getTodos = async (req: Request, res: Response) => {
   try {
-    const todos = await Todo.find().sort({ createdAt: -1 });
+    // Tombstones are left out unless asked for
+    const todos = await Todo.find({
+      ...(await visibleTodosFilter(req.userId!)),
+      ...(req.query.includeDeleted !== "true" && { deleted: { $ne: true } }),
+    }).sort({ createdAt: -1 });
     res.json(todos);
   } catch (error) {
-    res.status(500).json({ message: "Error fetching todos", error });
+    console.error("Error fetching todos:", error);
+    sendError(res, 500, "internal_error", "Error fetching todos");
   }
 };
 
 export const createTodo = async (req: Request, res: Response) => {
   try {
-    const { title, completed } = req.body;
+    const ownerId = req.userId!;
+    const { clientId, listId = null } = req.body;
+    const fields = pickTodoFields(req.body);
+    if (!canWrite(await getTodoRole(listId, ownerId))) {
+      return sendError(
+        res,
+        403,
+        "forbidden",
+        "You can't add todos to this list"
+      );
+    }
+    if (clientId) {
+      // Idempotent create: a retried request returns the existing todo
+      const todo = await Todo.findOneAndUpdate(
+        { clientId, ownerId },
+        {
+          $setOnInsert: {
+            clientId,
+            ownerId,
+            listId,
+            ...fields,
+            syncedAt: new Date(),
+          },
+        },
+        { new: true, upsert: true }
+      );
+      await notifyTodoChanges(ownerId, [toTodoDoc(todo)]);
+      return res.status(201).json(todo);
+    }
     const todo = new Todo({
-      title,
-      completed,
+      ownerId,
+      listId,
+      ...fields,
       syncedAt: new Date(),
     });
     await todo.save();
+    await notifyTodoChanges(ownerId, [toTodoDoc(todo)]);
     res.status(201).json(todo);
   } catch (error) {
-    res.status(400).json({ message: "Error creating todo", error });
+    // The client id is already used by someone else's todo; sending the
+    // same create again would hit it again
+    if (isDuplicateKeyError(error)) {
+      return sendError(
+        res,
+        409,
+        "duplicate",
+        "Todo clashes with an existing one"
+      );
+    }
+    console.error("Error creating todo:", error);
+    sendError(res, 500, "internal_error", "Error creating todo");
   }
 };
 
@@ -29,183 +117,639 @@ export const updateTodo = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const update = {
-      ...req.body,
+      ...pickTodoFields(req.body),
       syncedAt: new Date(),
+      $inc: { version: 1 },
     };
+    const existing = await Todo.findOne({
+      _id: id,
+      ...(await visibleTodosFilter(req.userId!)),
+      deleted: { $ne: true },
+    });
+    if (!existing) {
+      return sendError(res, 404, "not_found", "Todo not found");
+    }
+    if (!canWrite(await getTodoRole(existing.listId, req.userId!))) {
+      return sendError(res, 403, "forbidden", "This list is read-only");
+    }
     const todo = await Todo.findByIdAndUpdate(id, update, { new: true });
     if (!todo) {
-      return res.status(404).json({ message: "Todo not found" });
+      return sendError(res, 404, "not_found", "Todo not found");
     }
+    await notifyTodoChanges(req.userId!, [toTodoDoc(todo)]);
     res.json(todo);
   } catch (error) {
-    res.status(400).json({ message: "Error updating todo", error });
+    console.error("Error updating todo:", error);
+    sendError(res, 500, "internal_error", "Error updating todo");
   }
 };
 
 export const deleteTodo = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const todo = await Todo.findByIdAndDelete(id);
+    const existing = await Todo.findOne({
+      _id: id,
+      ...(await visibleTodosFilter(req.userId!)),
+      deleted: { $ne: true },
+    });
+    if (!existing) {
+      return sendError(res, 404, "not_found", "Todo not found");
+    }
+    if (!canWrite(await getTodoRole(existing.listId, req.userId!))) {
+      return sendError(res, 403, "forbidden", "This list is read-only");
+    }
+    // Keep a tombstone so the change feed can tell other clients about it
+    const todo = await Todo.findByIdAndUpdate(
+      id,
+      {
+        deleted: true,
+        deletedAt: new Date(),
+        syncedAt: new Date(),
+        $inc: { version: 1 },
+      },
+      { new: true }
+    );
     if (!todo) {
-      return res.status(404).json({ message: "Todo not found" });
+      return sendError(res, 404, "not_found", "Todo not found");
     }
+    await notifyTodoChanges(req.userId!, [toTodoDoc(todo)]);
     res.json({ message: "Todo deleted successfully" });
   } catch (error) {
-    res.status(400).json({ message: "Error deleting todo", error });
+    console.error("Error deleting todo:", error);
+    sendError(res, 500, "internal_error", "Error deleting todo");
   }
 };
 
-// Helper function to convert Mongoose document to TodoDoc
-const toTodoDoc = (doc: ITodo): TodoDoc => {
+// Helper function to convert Mongoose document to the API shape
+const toTodoDoc = (doc: ITodo): ApiTodo<Date> => {
   const obj = doc.toObject();
   return {
     _id: obj._id.toString(),
+    clientId: obj.clientId,
+    listId: obj.listId ? obj.listId.toString() : null,
     title: obj.title,
     completed: obj.completed,
+    dueAt: obj.dueAt ?? null,
+    priority: obj.priority ?? null,
+    notes: obj.notes ?? "",
+    tags: obj.tags ?? [],
+    subtasks: obj.subtasks ?? [],
     createdAt: obj.createdAt,
     updatedAt: obj.updatedAt,
     syncedAt: obj.syncedAt,
-    deleted: obj.deleted,
+    deleted: obj.deleted ?? false,
+    deletedAt: obj.deletedAt ?? null,
+    version: obj.version,
   };
 };
 
+const DEFAULT_CHANGES_LIMIT = 500;
+const MAX_CHANGES_LIMIT = 1000;
+
+type ChangesCursor = { syncedAt: Date; id: string; issuedAt: number };
+
+// Cursors are "<syncedAt ms>:<_id>:<issued ms>". The id keeps todos sharing
+// a syncedAt millisecond from being skipped between pages; the issue time
+// is when the client last caught up, which is what tombstone expiry is
+// measured against.
+const encodeCursor = ({ syncedAt, id, issuedAt }: ChangesCursor) =>
+  `${syncedAt.getTime()}:${id}:${issuedAt}`;
+
+const decodeCursor = (cursor: string): ChangesCursor | null => {
+  const [time, id, issued] = cursor.split(":");
+  const syncedAt = new Date(Number(time));
+  // Cursors from before issue times were added count from their syncedAt
+  const issuedAt = issued === undefined ? syncedAt.getTime() : Number(issued);
+  if (
+    Number.isNaN(syncedAt.getTime()) ||
+    Number.isNaN(issuedAt) ||
+    !mongoose.isValidObjectId(id)
+  ) {
+    return null;
+  }
+  return { syncedAt, id, issuedAt };
+};
+
+export const getChanges = async (req: Request, res: Response) => {
+  try {
+    const { since } = req.query;
+    const limit = Math.min(
+      Number(req.query.limit) || DEFAULT_CHANGES_LIMIT,
+      MAX_CHANGES_LIMIT
+    );
+
+    let filter = await visibleTodosFilter(req.userId!);
+    let cursor: ChangesCursor | null = null;
+    if (typeof since === "string" && since.length > 0) {
+      cursor = decodeCursor(since);
+      if (!cursor) {
+        return sendError(res, 400, "invalid_cursor", "Invalid cursor");
+      }
+      // The client has seen every change up to when its cursor was issued.
+      // Tombstones made since then are kept for the retention window, so
+      // only a client that hasn't pulled for that long can have missed a
+      // delete. A quiet account keeps pulling and so keeps a fresh cursor.
+      if (cursor.issuedAt < Date.now() - getTombstoneRetentionMs()) {
+        return sendError(
+          res,
+          410,
+          "cursor_expired",
+          "Cursor is older than the tombstone retention window, resync from scratch"
+        );
+      }
+      filter = {
+        $and: [
+          filter,
+          {
+            $or: [
+              { syncedAt: { $gt: cursor.syncedAt } },
+              { syncedAt: cursor.syncedAt, _id: { $gt: cursor.id } },
+            ],
+          },
+        ],
+      };
+    }
+
+    // Tombstones are included so clients can drop todos deleted elsewhere
+    const docs = await Todo.find(filter)
+      .sort({ syncedAt: 1, _id: 1 })
+      .limit(limit + 1);
+    const hasMore = docs.length > limit;
+    const page = docs.slice(0, limit);
+    const last = page[page.length - 1];
+
+    // Only the last page catches the client up. Until then its cursor keeps
+    // the issue time of the catch-up it continues, so a client that stops
+    // paging partway can't look fresher than it is. An empty page still
+    // reissues the cursor, so it doesn't age out.
+    const issuedAt = hasMore ? cursor?.issuedAt ?? Date.now() : Date.now();
+    res.json({
+      todos: page.map(toTodoDoc),
+      cursor: last
+        ? encodeCursor({
+            syncedAt: last.syncedAt,
+            id: String(last._id),
+            issuedAt,
+          })
+        : cursor && encodeCursor({ ...cursor, issuedAt }),
+      hasMore,
+    } satisfies ChangesResponse<Date>);
+  } catch (error) {
+    console.error("Error fetching changes:", error);
+    sendError(res, 500, "internal_error", "Error fetching changes");
+  }
+};
+
+type SyncContext = {
+  ownerId: string;
+  visible: Awaited<ReturnType<typeof visibleTodosFilter>>;
+  roleFor: (
+    listId?: string | mongoose.Types.ObjectId | null
+  ) => Promise<ListRole | null>;
+  session?: ClientSession;
+};
+
+const applySyncItem = async (
+  todo: SyncItem,
+  { ownerId, visible, roleFor, session }: SyncContext
+): Promise<SyncResult<Date>> => {
+  const result = { opId: todo.opId, id: todo._id, clientId: todo.clientId };
+
+  // Prefer the server id when the client knows it; otherwise address the
+  // todo by the id the client generated for it
+  const filter = todo._id
+    ? { _id: todo._id, ...visible }
+    : todo.clientId
+    ? { clientId: todo.clientId, ...visible }
+    : null;
+
+  // Writes are checked against the list the todo lives in, or the one it is
+  // being created in
+  const existingTodo = filter && (await Todo.findOne(filter, null, { session }));
+  const role = await roleFor(existingTodo ? existingTodo.listId : todo.listId);
+  if (!canWrite(role)) {
+    return {
+      ...result,
+      status: "rejected",
+      code: "forbidden",
+      error: role ? "This list is read-only" : "List not found",
+    };
+  }
+
+  switch (todo.action) {
+    case "create": {
+      // Upsert so a retried create returns the existing todo. Timestamps
+      // come from the client, so Mongoose must not add its own.
+      const clientId = todo.clientId ?? randomUUID();
+      const created = await Todo.findOneAndUpdate(
+        { clientId, ownerId },
+        {
+          $setOnInsert: {
+            clientId,
+            ownerId,
+            listId: todo.listId ?? null,
+            ...pickTodoFields(todo),
+            createdAt: new Date(todo.createdAt),
+            updatedAt: new Date(todo.updatedAt),
+            syncedAt: new Date(),
+          },
+        },
+        { new: true, upsert: true, session, timestamps: false }
+      );
+      return { ...result, status: "applied", todo: toTodoDoc(created) };
+    }
+
+    case "delete": {
+      if (!existingTodo) return { ...result, status: "not_found" };
+      if (existingTodo.deleted) {
+        return { ...result, status: "applied", todo: toTodoDoc(existingTodo) };
+      }
+      // Soft delete so the change feed can report the tombstone
+      const deleted = await Todo.findByIdAndUpdate(
+        existingTodo._id,
+        {
+          deleted: true,
+          deletedAt: new Date(),
+          syncedAt: new Date(),
+          $inc: { version: 1 },
+        },
+        { new: true, session }
+      );
+      if (!deleted) return { ...result, status: "not_found" };
+      return { ...result, status: "applied", todo: toTodoDoc(deleted) };
+    }
+
+    case "update":
+    default: {
+      // Updates (and todos without an action, for backward compatibility)
+      // upsert by client id, so an update whose create never reached the
+      // server still produces the todo. A server id that matches nothing
+      // means the todo is gone.
+      if (!filter) {
+        return {
+          ...result,
+          status: "rejected",
+          code: "validation_failed",
+          error: "Todo has no id",
+        };
+      }
+      if (!existingTodo && todo._id) return { ...result, status: "not_found" };
+      // A delete wins over edits made offline; the client gets the tombstone
+      // back and drops its copy
+      if (existingTodo?.deleted) {
+        return { ...result, status: "applied", todo: toTodoDoc(existingTodo) };
+      }
+
+      let changes: Partial<TodoFields> = pickTodoFields(todo);
+
+      // A client that sends the version it edited from gets a three-way
+      // merge when someone else changed the todo meanwhile
+      if (
+        existingTodo &&
+        todo.baseVersion !== undefined &&
+        existingTodo.version !== todo.baseVersion
+      ) {
+        const { merged, conflicts } = mergeTodoFields(
+          pickTodoFields(todo.base),
+          changes,
+          existingTodo
+        );
+        if (conflicts.length > 0) {
+          return {
+            ...result,
+            id: String(existingTodo._id),
+            clientId: todo.clientId ?? existingTodo.clientId,
+            status: "conflict",
+            fields: conflicts,
+            todo: toTodoDoc(existingTodo),
+          };
+        }
+        changes = merged;
+      }
+
+      const updated = await Todo.findOneAndUpdate(
+        // Only write over the copy the merge was computed against
+        existingTodo
+          ? { _id: existingTodo._id, version: existingTodo.version }
+          : filter,
+        {
+          $set: {
+            ...changes,
+            updatedAt: new Date(todo.updatedAt),
+            syncedAt: new Date(),
+            ...(todo.clientId && { clientId: todo.clientId }),
+          },
+          $inc: { version: 1 },
+          $setOnInsert: {
+            ownerId,
+            listId: todo.listId ?? null,
+            createdAt: new Date(todo.createdAt),
+          },
+        },
+        { new: true, upsert: !existingTodo, session, timestamps: false }
+      );
+      if (!updated) {
+        return {
+          ...result,
+          status: "rejected",
+          code: "stale",
+          error: "Todo changed during sync, please retry",
+        };
+      }
+      return { ...result, status: "applied", todo: toTodoDoc(updated) };
+    }
+  }
+};
+
+// Errors that applying the same item again would hit again, so they are
+// reported against the item instead of failing the batch
+const toPermanentFailure = (
+  error: unknown
+): Pick<SyncResult<Date>, "code" | "error"> | null => {
+  if (isDuplicateKeyError(error)) {
+    return { code: "duplicate", error: "Todo clashes with an existing one" };
+  }
+  if (
+    error instanceof mongoose.Error.ValidationError ||
+    error instanceof mongoose.Error.CastError
+  ) {
+    return { code: "validation_failed", error: error.message };
+  }
+  return null;
+};
+
+// Aborts a transaction on behalf of one item that can never be applied
+class ItemRejectedError extends Error {
+  constructor(readonly index: number, readonly result: SyncResult<Date>) {
+    super(result.error);
+    this.name = "ItemRejectedError";
+  }
+}
+
+/**
+ * Applies a batch of outbox operations and answers with one result per
+ * operation, in order. Where the database supports transactions the batch
+ * is all or nothing: an unexpected error rolls back every write and fails
+ * the request, so the client knows nothing was applied. An item that fails
+ * permanently aborts the attempt too, but the batch is then retried without
+ * it and the item alone is rejected. Without transactions each operation is
+ * applied on its own and failures are reported per item.
+ */
 export const syncTodos = async (req: Request, res: Response) => {
   try {
-    console.log("Received sync request with data:", req.body);
-    const { todos } = req.body;
-
-    if (!Array.isArray(todos)) {
-      console.error("Invalid todos data received:", todos);
-      return res.status(400).json({ message: "Invalid todos data" });
-    }
-
-    const syncedTodos: TodoDoc[] = [];
-    const errors: { id?: string; error: string }[] = [];
-
-    for (const todo of todos) {
-      console.log("Processing todo:", todo);
-
-      try {
-        let newTodo;
-        let updatedTodo;
-        let deletedTodo;
-        let existingTodo;
-
-        switch (todo.action) {
-          case "create":
-            // Create new todo
-            console.log("Creating new todo:", todo);
-            newTodo = new Todo({
-              title: todo.title,
-              completed: todo.completed,
-              createdAt: new Date(todo.createdAt),
-              updatedAt: new Date(todo.updatedAt),
-              syncedAt: new Date(),
-            });
-            await newTodo.save();
-            console.log("New todo created:", newTodo);
-            syncedTodos.push(toTodoDoc(newTodo));
-            break;
-
-          case "update":
-            // Update existing todo
-            if (todo._id) {
-              console.log("Updating existing todo:", todo._id);
-              updatedTodo = await Todo.findByIdAndUpdate(
-                todo._id,
-                {
-                  title: todo.title,
-                  completed: todo.completed,
-                  updatedAt: new Date(todo.updatedAt),
-                  syncedAt: new Date(),
-                },
-                { new: true }
-              );
-
-              if (updatedTodo) {
-                console.log("Todo updated successfully:", updatedTodo);
-                syncedTodos.push(toTodoDoc(updatedTodo));
-              } else {
-                errors.push({
-                  id: todo._id,
-                  error: "Todo not found for update",
-                });
-              }
-            }
-            break;
-
-          case "delete":
-            // Delete todo
-            if (todo._id) {
-              console.log("Deleting todo:", todo._id);
-              deletedTodo = await Todo.findByIdAndDelete(todo._id);
-              if (deletedTodo) {
-                console.log("Todo deleted successfully:", deletedTodo);
-                syncedTodos.push({
-                  ...toTodoDoc(deletedTodo),
-                  deleted: true,
-                  syncedAt: new Date(),
-                });
-              } else {
-                // If todo doesn't exist, consider it successfully deleted
-                const deletedTodoDoc: TodoDoc = {
-                  _id: todo._id,
-                  title: todo.title,
-                  completed: todo.completed,
-                  deleted: true,
-                  syncedAt: new Date(),
-                  createdAt: new Date(todo.createdAt),
-                  updatedAt: new Date(todo.updatedAt),
-                };
-                syncedTodos.push(deletedTodoDoc);
-              }
-            }
-            break;
-
-          default:
-            // Handle todos without action (backward compatibility)
-            if (todo._id) {
-              // Update existing todo
-              existingTodo = await Todo.findByIdAndUpdate(
-                todo._id,
-                {
-                  title: todo.title,
-                  completed: todo.completed,
-                  syncedAt: new Date(),
-                },
-                { new: true, upsert: true }
-              );
-              if (existingTodo) {
-                syncedTodos.push(toTodoDoc(existingTodo));
-              }
-            } else {
-              // Create new todo
-              newTodo = new Todo({
-                title: todo.title,
-                completed: todo.completed,
-                syncedAt: new Date(),
-              });
-              await newTodo.save();
-              syncedTodos.push(toTodoDoc(newTodo));
-            }
+    const { todos } = req.body as { todos: unknown[] };
+    const ownerId = req.userId!;
+
+    // Role per list, looked up once per batch
+    const roles = new Map<string, Promise<ListRole | null>>();
+    const context: SyncContext = {
+      ownerId,
+      visible: await visibleTodosFilter(ownerId),
+      roleFor: (listId) => {
+        const key = listId ? String(listId) : "";
+        if (!roles.has(key)) roles.set(key, getTodoRole(listId, ownerId));
+        return roles.get(key)!;
+      },
+    };
+
+    // Items rejected by earlier attempts at the transaction, by position
+    const rejected = new Map<number, SyncResult<Date>>();
+
+    const applyBatch = async (session?: ClientSession) => {
+      const results: SyncResult<Date>[] = [];
+      for (const [index, item] of todos.entries()) {
+        const skipped = rejected.get(index);
+        if (skipped) {
+          results.push(skipped);
+          continue;
+        }
+
+        const parsed = syncItemSchema.safeParse(item);
+        if (!parsed.success) {
+          // Report the item by whatever ids it has so the client can match it
+          const { opId, _id, clientId } =
+            typeof item === "object" && item
+              ? (item as Record<string, unknown>)
+              : {};
+          results.push({
+            opId: typeof opId === "number" ? opId : undefined,
+            id: typeof _id === "string" ? _id : undefined,
+            clientId: typeof clientId === "string" ? clientId : undefined,
+            status: "rejected",
+            code: "validation_failed",
+            error: "Invalid todo",
+            details: toErrorDetails(parsed.error),
+          });
+          continue;
+        }
+
+        const todo = parsed.data;
+        try {
+          results.push(await applySyncItem(todo, { ...context, session }));
+        } catch (todoError) {
+          const permanent = toPermanentFailure(todoError);
+          const failure: SyncResult<Date> = {
+            opId: todo.opId,
+            id: todo._id,
+            clientId: todo.clientId,
+            status: "rejected",
+            ...(permanent ?? {
+              code: "internal_error",
+              error:
+                todoError instanceof Error
+                  ? todoError.message
+                  : "Unknown error",
+            }),
+          };
+          // Inside a transaction the failed write aborted it, so the whole
+          // batch has to be retried
+          if (session) {
+            throw permanent ? new ItemRejectedError(index, failure) : todoError;
+          }
+          // Only what identifies the operation; the todo's content and
+          // error messages quoting it stay out of the log
+          console.error(
+            "Error processing todo:",
+            `${todo.action ?? "update"} ${failure.status} ${failure.code} ${todo.clientId}`
+          );
+          results.push(failure);
         }
-      } catch (todoError) {
-        console.error("Error processing todo:", todo, todoError);
-        errors.push({
-          id: todo._id,
-          error:
-            todoError instanceof Error ? todoError.message : "Unknown error",
-        });
       }
+      return results;
+    };
+
+    let results: SyncResult<Date>[] = [];
+    if (await supportsTransactions()) {
+      // Each rejected item costs one more attempt, so this ends after at
+      // most one attempt per item
+      for (;;) {
+        try {
+          // The callback may run more than once on transient errors
+          await mongoose.connection.transaction(async (session) => {
+            results = await applyBatch(session);
+          });
+          break;
+        } catch (error) {
+          if (!(error instanceof ItemRejectedError)) throw error;
+          rejected.set(error.index, error.result);
+        }
+      }
+    } else {
+      results = await applyBatch();
     }
 
-    console.log("Sync completed. Sending response:", { syncedTodos, errors });
-    res.json({
-      todos: syncedTodos,
-      errors: errors.length > 0 ? errors : undefined,
-    });
+    await notifyTodoChanges(
+      ownerId,
+      results
+        .filter((result) => result.status === "applied")
+        .map((result) => result.todo!)
+    );
+    res.json({ results } satisfies SyncResponse<Date>);
   } catch (error) {
     console.error("Error in syncTodos:", error);
-    res.status(400).json({ message: "Error syncing todos", error });
+    sendError(res, 500, "internal_error", "Error syncing todos");
   }
 };
+
+// A list's todos, or the user's personal ones, leaving out tombstones
+const listTodosFilter = (ownerId: string, listId?: string | null) => ({
+  ...(listId ? { listId } : { ownerId, listId: null }),
+  deleted: { $ne: true },
+});
+
+export const exportTodos = async (req: Request, res: Response) => {
+  try {
+    const { format, listId } = req.query as {
+      format: ExportFormat;
+      listId?: string;
+    };
+    if (listId && !(await getTodoRole(listId, req.userId!))) {
+      return sendError(res, 404, "not_found", "List not found");
+    }
+    const todos = await Todo.find(listTodosFilter(req.userId!, listId)).sort({
+      createdAt: 1,
+    });
+    const { type, extension } = EXPORT_CONTENT[format];
+    res
+      .type(type)
+      .attachment(`todos.${extension}`)
+      .send(formatTodos(todos.map(toTodoDoc), format));
+  } catch (error) {
+    console.error("Error exporting todos:", error);
+    sendError(res, 500, "internal_error", "Error exporting todos");
+  }
+};
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Creates todos in bulk, skipping duplicates: todos whose client id is
+ * already known or earlier in the batch, or whose title is already in the
+ * list or earlier in the batch. With `dryRun` it only reports what it would do.
+ */
+export const importTodos = async (req: Request, res: Response) => {
+  try {
+    const ownerId = req.userId!;
+    const {
+      listId = null,
+      dryRun = false,
+      todos,
+    } = req.body as { listId?: string | null; dryRun?: boolean; todos: ImportItem[] };
+    if (!canWrite(await getTodoRole(listId, ownerId))) {
+      return sendError(
+        res,
+        403,
+        "forbidden",
+        "You can't add todos to this list"
+      );
+    }
+
+    // Only the caller's own todos count as duplicates. A client id someone
+    // else already uses is replaced, so the reply doesn't reveal it exists.
+    const clientIds = todos.flatMap((item) => item.clientId ?? []);
+    const taken = await Todo.find(
+      { clientId: { $in: clientIds } },
+      { clientId: 1, ownerId: 1 }
+    );
+    const known = new Set(
+      taken
+        .filter((todo) => String(todo.ownerId) === ownerId)
+        .map((todo) => todo.clientId)
+    );
+    const foreign = new Set(
+      taken
+        .filter((todo) => String(todo.ownerId) !== ownerId)
+        .map((todo) => todo.clientId)
+    );
+    const titles = new Set(
+      (await Todo.find(listTodosFilter(ownerId, listId), { title: 1 })).map(
+        (todo) => titleKey(todo.title)
+      )
+    );
+
+    const toCreate: ImportItem[] = [];
+    const created: { index: number; title: string }[] = [];
+    const duplicates: { index: number; title: string }[] = [];
+    todos.forEach((item, index) => {
+      const key = titleKey(item.title);
+      if ((item.clientId && known.has(item.clientId)) || titles.has(key)) {
+        duplicates.push({ index, title: item.title });
+        return;
+      }
+      // Later rows of the file count as duplicates of this one too
+      titles.add(key);
+      if (item.clientId) known.add(item.clientId);
+      toCreate.push(item);
+      created.push({ index, title: item.title });
+    });
+
+    if (dryRun) {
+      return res.json({ dryRun, created, duplicates, todos: [] });
+    }
+
+    const inserted = await Todo.insertMany(
+      toCreate.map(
+        (item) =>
+          new Todo({
+            ...pickTodoFields(item),
+            clientId:
+              item.clientId && !foreign.has(item.clientId)
+                ? item.clientId
+                : randomUUID(),
+            ownerId,
+            listId,
+            syncedAt: new Date(),
+          })
+      )
+    );
+    const docs = inserted.map(toTodoDoc);
+    await notifyTodoChanges(ownerId, docs);
+    res.status(201).json({ dryRun, created, duplicates, todos: docs });
+  } catch (error) {
+    console.error("Error importing todos:", error);
+    sendError(res, 500, "internal_error", "Error importing todos");
+  }
+};
+
+const HEARTBEAT_INTERVAL = 25000;
+
+// Server-Sent Events stream of todo changes made by any client
+export const streamTodoEvents = (req: Request, res: Response) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 5000\n\n");
+
+  const unsubscribe = onTodoChanges(req.userId!, (event) => {
+    res.write(`event: changes\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
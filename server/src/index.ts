@@ -4,22 +4,44 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import connectDB from './config/db';
 import todoRoutes from './routes/todoRoutes';
+import authRoutes from './routes/authRoutes';
+import listRoutes from './routes/listRoutes';
+import healthRoutes from './routes/healthRoutes';
+import { requireDatabase } from './middleware/database';
+import { startTombstonePurge } from './utils/tombstones';
+import { getJwtSecret } from './utils/auth';
 
 dotenv.config();
 
+// Fail now rather than on the first sign-in
+getJwtSecret();
+
 const app = express();
 const PORT = process.env.PORT || 5000;
+// Packaged Electron builds load from file:// and send the "null" origin
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173,null')
+  .split(',')
+  .map((origin) => origin.trim());
 
 // Middleware
-app.use(cors());
+// Retry-After tells clients how long to back off after a 429 or 503
+app.use(cors({ origin: CORS_ORIGINS, exposedHeaders: ['Retry-After'] }));
 app.use(express.json());
+// EventSource connections carry the session token in the query string,
+// which must not end up in the logs
+morgan.token('url', (req: express.Request) =>
+  (req.originalUrl || req.url).replace(/([?&]token=)[^&]*/g, '$1[redacted]')
+);
 app.use(morgan('dev'));
 
 // Routes
-app.use('/api/todos', todoRoutes);
+app.use('/api/health', healthRoutes);
+app.use('/api/auth', requireDatabase, authRoutes);
+app.use('/api/lists', requireDatabase, listRoutes);
+app.use('/api/todos', requireDatabase, todoRoutes);
 
 // Connect to database
-connectDB();
+connectDB().then(startTombstonePurge);
 
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express';
+import { verifyToken } from '../utils/auth';
+import { sendError } from '../utils/errors';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      userId?: string;
+    }
+  }
+}
+
+// Accepts "Authorization: Bearer <token>", or a `token` query parameter for
+// EventSource connections, which cannot send headers
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : typeof req.query.token === 'string'
+    ? req.query.token
+    : null;
+
+  const userId = token && verifyToken(token);
+  if (!userId) {
+    return sendError(res, 401, 'unauthorized', 'Authentication required');
+  }
+
+  req.userId = userId;
+  next();
+};
@@ -0,0 +1,22 @@
+import { NextFunction, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { sendError } from '../utils/errors';
+
+// Seconds clients are asked to wait before trying again
+const RETRY_AFTER_SECONDS = 30;
+
+const isDatabaseConnected = () => mongoose.connection.readyState === 1;
+
+// Answers 503 with Retry-After while the database is away, rather than
+// letting queries buffer until they time out with a 500
+export const requireDatabase = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!isDatabaseConnected()) {
+    res.set('Retry-After', String(RETRY_AFTER_SECONDS));
+    return sendError(res, 503, 'unavailable', 'Database is not connected');
+  }
+  next();
+};
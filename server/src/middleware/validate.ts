@@ -0,0 +1,33 @@
+import { NextFunction, Request, Response } from 'express';
+import { ZodTypeAny } from 'zod';
+import { sendError, toErrorDetails } from '../utils/errors';
+
+type RequestSchemas = {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+};
+
+// Rejects requests that don't match the schemas and replaces each part with
+// its parsed value, so handlers only see whitelisted fields
+export const validate =
+  (schemas: RequestSchemas) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part]);
+      if (!result.success) {
+        return sendError(
+          res,
+          400,
+          'validation_failed',
+          `Invalid request ${part}`,
+          toErrorDetails(result.error)
+        );
+      }
+      req[part] = result.data;
+    }
+    next();
+  };
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LIST_ROLES, ListRole } from '../../../shared/api';
+
+export { LIST_ROLES };
+export type { ListRole };
+
+export type ListMember = {
+  userId: mongoose.Types.ObjectId;
+  role: ListRole;
+};
+
+export interface IList extends Document {
+  name: string;
+  members: ListMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ListMemberSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: LIST_ROLES,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+const ListSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  members: {
+    type: [ListMemberSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+ListSchema.index({ 'members.userId': 1 });
+
+export default mongoose.model<IList>('List', ListSchema);
@@ -1,19 +1,69 @@
+import { randomUUID } from 'crypto';
 import mongoose, { Document, Schema } from 'mongoose';
+import { Priority, Subtask, TODO_PRIORITIES } from '../../../shared/api';
+
+export { TODO_PRIORITIES };
+export type { Priority, Subtask };
 
 // Plain object type without Document methods
 export type TodoDoc = {
   _id?: string | mongoose.Types.ObjectId;
+  ownerId?: string | mongoose.Types.ObjectId;
+  listId?: string | mongoose.Types.ObjectId | null;
+  clientId: string;
   title: string;
   completed: boolean;
+  dueAt?: Date | null;
+  priority?: Priority | null;
+  notes?: string;
+  tags?: string[];
+  subtasks?: Subtask[];
   createdAt: Date;
   updatedAt: Date;
   syncedAt: Date;
   deleted?: boolean;
+  deletedAt?: Date | null;
+  version: number;
 }
 
 export interface ITodo extends Document, Omit<TodoDoc, '_id'> {}
 
+const SubtaskSchema = new Schema({
+  // Generated by the client so edits can address a subtask offline
+  id: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  completed: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
 const TodoSchema = new Schema({
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  },
+  // Shared list the todo belongs to; personal todos have none
+  listId: {
+    type: Schema.Types.ObjectId,
+    ref: 'List',
+    default: null,
+    index: true
+  },
+  // Stable id generated by the client that created the todo. Syncs upsert by
+  // it, so a retried create never produces a second document.
+  clientId: {
+    type: String,
+    default: () => randomUUID()
+  },
   title: {
     type: String,
     required: true,
@@ -23,6 +73,27 @@ const TodoSchema = new Schema({
     type: Boolean,
     default: false
   },
+  dueAt: {
+    type: Date,
+    default: null
+  },
+  priority: {
+    type: String,
+    enum: [...TODO_PRIORITIES, null],
+    default: null
+  },
+  notes: {
+    type: String,
+    default: ''
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  subtasks: {
+    type: [SubtaskSchema],
+    default: []
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -35,12 +106,36 @@ const TodoSchema = new Schema({
     type: Date,
     default: Date.now
   },
+  // Deletes leave a tombstone so clients that were offline learn about
+  // them. Tombstones are purged once older than the retention window.
   deleted: {
     type: Boolean,
     default: false
+  },
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  // Incremented on every change; clients send the version they edited from
+  // so concurrent edits can be detected
+  version: {
+    type: Number,
+    default: 1
   }
 }, {
   timestamps: true
 });
 
+// Sparse so documents created before client ids existed don't collide
+TodoSchema.index({ clientId: 1 }, { unique: true, sparse: true });
+
+// Support the change feed, which pages through the todos a user can see
+// ordered by syncedAt: one index for each branch of visibleTodosFilter,
+// personal todos by owner and shared ones by list
+TodoSchema.index({ ownerId: 1, syncedAt: 1, _id: 1 });
+TodoSchema.index({ listId: 1, syncedAt: 1, _id: 1 });
+
+// Supports the tombstone purge
+TodoSchema.index({ deleted: 1, deletedAt: 1 });
+
 export default mongoose.model<ITodo>('Todo', TodoSchema); 
\ No newline at end of file
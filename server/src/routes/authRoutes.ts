@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { login, signup } from '../controllers/authController';
+import { validate } from '../middleware/validate';
+import { loginSchema, signupSchema } from '../schemas/auth';
+
+const router = Router();
+
+router.post('/signup', validate({ body: signupSchema }), signup);
+router.post('/login', validate({ body: loginSchema }), login);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { requireDatabase } from '../middleware/database';
+
+const router = Router();
+
+// Probed by the desktop app to tell "server down" apart from "no network".
+// Without its database the server can't sync, so that counts as down.
+router.get('/', requireDatabase, (_req, res) => {
+  res.json({ status: 'ok' });
+});
+
+export default router;
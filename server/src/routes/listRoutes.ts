@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  getLists,
+  createList,
+  addMember,
+  removeMember
+} from '../controllers/listController';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  addMemberSchema,
+  createListSchema,
+  listIdParamsSchema,
+  memberParamsSchema
+} from '../schemas/list';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getLists);
+router.post('/', validate({ body: createListSchema }), createList);
+router.post(
+  '/:id/members',
+  validate({ params: listIdParamsSchema, body: addMemberSchema }),
+  addMember
+);
+router.delete(
+  '/:id/members/:userId',
+  validate({ params: memberParamsSchema }),
+  removeMember
+);
+
+export default router;
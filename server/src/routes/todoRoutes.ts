@@ -4,15 +4,41 @@ import {
   createTodo,
   updateTodo,
   deleteTodo,
-  syncTodos
+  syncTodos,
+  getChanges,
+  streamTodoEvents,
+  exportTodos,
+  importTodos
 } from '../controllers/todoController';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  changesQuerySchema,
+  createTodoSchema,
+  exportQuerySchema,
+  getTodosQuerySchema,
+  importRequestSchema,
+  syncRequestSchema,
+  todoIdParamsSchema,
+  updateTodoSchema
+} from '../schemas/todo';
 
 const router = Router();
 
-router.get('/', getTodos);
-router.post('/', createTodo);
-router.put('/:id', updateTodo);
-router.delete('/:id', deleteTodo);
-router.post('/sync', syncTodos);
+router.use(requireAuth);
+
+router.get('/', validate({ query: getTodosQuerySchema }), getTodos);
+router.post('/', validate({ body: createTodoSchema }), createTodo);
+router.put(
+  '/:id',
+  validate({ params: todoIdParamsSchema, body: updateTodoSchema }),
+  updateTodo
+);
+router.delete('/:id', validate({ params: todoIdParamsSchema }), deleteTodo);
+router.post('/sync', validate({ body: syncRequestSchema }), syncTodos);
+router.get('/changes', validate({ query: changesQuerySchema }), getChanges);
+router.get('/events', streamTodoEvents);
+router.get('/export', validate({ query: exportQuerySchema }), exportTodos);
+router.post('/import', validate({ body: importRequestSchema }), importTodos);
 
 export default router; 
\ No newline at end of file
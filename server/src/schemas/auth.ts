@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const email = z.string().trim().toLowerCase().email('Must be an email address');
+
+export const signupSchema = z.object({
+  email,
+  password: z
+    .string()
+    .min(
+      MIN_PASSWORD_LENGTH,
+      `Must be at least ${MIN_PASSWORD_LENGTH} characters`
+    )
+    .max(1000),
+});
+
+// Only checked for shape; a wrong email or password gets the same 401
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1).max(320),
+  password: z.string().min(1).max(1000),
+});
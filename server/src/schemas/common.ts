@@ -0,0 +1,6 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+
+export const objectId = z
+  .string()
+  .refine((id) => mongoose.isValidObjectId(id), 'Must be a valid id');
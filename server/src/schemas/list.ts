@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { LIST_ROLES } from '../models/List';
+import { objectId } from './common';
+
+export const listIdParamsSchema = z.object({
+  id: objectId,
+});
+
+export const memberParamsSchema = z.object({
+  id: objectId,
+  userId: objectId,
+});
+
+export const createListSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+});
+
+// Inviting someone who is already a member changes their role
+export const addMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Must be an email address'),
+  role: z.enum(LIST_ROLES),
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { TODO_LIMITS } from '../../../shared/api';
+import { TODO_PRIORITIES } from '../models/Todo';
+import { EXPORT_FORMATS } from '../utils/transfer';
+import { objectId } from './common';
+
+// Unknown keys are stripped by every object schema, so only the fields
+// listed here ever reach a controller
+
+const clientId = z.string().min(1).max(100);
+
+const timestamp = z.string().datetime();
+
+const subtaskSchema = z.object({
+  id: z.string().min(1).max(100),
+  title: z.string().trim().min(1).max(TODO_LIMITS.subtaskTitle),
+  completed: z.boolean(),
+});
+
+// Fields a client may set on a todo. Due dates are epoch milliseconds.
+export const todoFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(TODO_LIMITS.title),
+  completed: z.boolean(),
+  dueAt: z.number().int().nonnegative().nullable(),
+  priority: z.enum(TODO_PRIORITIES).nullable(),
+  notes: z.string().max(TODO_LIMITS.notes),
+  tags: z
+    .array(z.string().trim().min(1).max(TODO_LIMITS.tag))
+    .max(TODO_LIMITS.tags),
+  subtasks: z.array(subtaskSchema).max(TODO_LIMITS.subtasks),
+});
+
+export const todoIdParamsSchema = z.object({
+  id: objectId,
+});
+
+export const createTodoSchema = todoFieldsSchema
+  .partial()
+  .required({ title: true })
+  .extend({
+    clientId: clientId.optional(),
+    listId: objectId.nullable().optional(),
+  });
+
+// Owner, list and bookkeeping fields can't be changed through an update
+export const updateTodoSchema = todoFieldsSchema.partial();
+
+export const syncItemSchema = todoFieldsSchema.partial().extend({
+  // Client outbox operation id, echoed back in the result
+  opId: z.number().int().optional(),
+  _id: objectId.optional(),
+  clientId: clientId.optional(),
+  listId: objectId.nullable().optional(),
+  action: z.enum(['create', 'update', 'delete']).optional(),
+  baseVersion: z.number().int().nonnegative().optional(),
+  base: todoFieldsSchema.partial().optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+// Items are checked one by one in the controller, so a single bad item
+// doesn't fail the whole batch
+export const syncRequestSchema = z.object({
+  todos: z.array(z.unknown()).max(1000),
+});
+
+export const getTodosQuerySchema = z.object({
+  includeDeleted: z.enum(['true', 'false']).optional(),
+});
+
+export const changesQuerySchema = z.object({
+  since: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('json'),
+  // Todos of this list; personal todos when left out
+  listId: objectId.optional(),
+});
+
+// Accepts the todos of a JSON export. The client id is kept to spot todos
+// imported before; server ids, versions and times are dropped.
+export const importItemSchema = todoFieldsSchema
+  .partial()
+  .required({ title: true })
+  .extend({
+    clientId: clientId.optional(),
+  });
+
+export const importRequestSchema = z.object({
+  listId: objectId.nullable().optional(),
+  // Report what would happen without creating anything
+  dryRun: z.boolean().optional(),
+  todos: z.array(importItemSchema).max(1000),
+});
+
+export type SyncItem = z.infer<typeof syncItemSchema>;
+export type ImportItem = z.infer<typeof importItemSchema>;
@@ -0,0 +1,56 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import jwt from 'jsonwebtoken';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const TOKEN_TTL = '7d';
+
+// Only an explicit development or test run may sign with the built-in
+// secret; anything else without JWT_SECRET refuses to start
+const INSECURE_SECRET_ENVS = ['development', 'test'];
+
+export const getJwtSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    if (!INSECURE_SECRET_ENVS.includes(process.env.NODE_ENV ?? '')) {
+      throw new Error(
+        'JWT_SECRET must be set (or NODE_ENV=development for a local server)'
+      );
+    }
+    return 'dev-only-secret';
+  }
+  return secret;
+};
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const signToken = (userId: string) =>
+  jwt.sign({}, getJwtSecret(), { subject: userId, expiresIn: TOKEN_TTL });
+
+// Returns the user id the token was issued to, or null if it is invalid
+export const verifyToken = (token: string) => {
+  try {
+    const payload = jwt.verify(token, getJwtSecret());
+    return typeof payload === 'object' && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
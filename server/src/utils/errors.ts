@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+import type { ErrorBody, ErrorDetail } from '../../../shared/api';
+
+export type { ErrorBody, ErrorDetail };
+
+export const sendError = (
+  res: Response,
+  status: number,
+  code: string,
+  message: string,
+  details?: ErrorDetail[]
+) => res.status(status).json({ code, message, details } satisfies ErrorBody);
+
+// MongoDB's error for a write that breaks a unique index
+export const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number } | null)?.code === 11000;
+
+export const toErrorDetails = (error: ZodError): ErrorDetail[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
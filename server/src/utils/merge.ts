@@ -0,0 +1,92 @@
+import { ITodo, Subtask } from '../models/Todo';
+
+// Fields that are merged individually when two clients edit the same todo
+export const MERGEABLE_FIELDS = [
+  'title',
+  'completed',
+  'dueAt',
+  'priority',
+  'notes',
+  'tags',
+  'subtasks',
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+export type TodoFields = Pick<ITodo, MergeableField>;
+
+export type FieldConflict = {
+  field: MergeableField;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+export type MergeResult = {
+  merged: Partial<TodoFields>;
+  conflicts: FieldConflict[];
+};
+
+// Dates compare by time and lists by content; unset and null are the same
+const sameValue = (a: unknown, b: unknown) => {
+  const comparable = (value: unknown) =>
+    value instanceof Date ? value.getTime() : JSON.stringify(value ?? null);
+  return comparable(a) === comparable(b);
+};
+
+/**
+ * Picks the mergeable fields a client sent, converting due dates from epoch
+ * milliseconds. Fields the client left out stay unset.
+ */
+export const pickTodoFields = (input: Record<string, unknown> = {}) => {
+  const fields: Partial<TodoFields> = {};
+  for (const field of MERGEABLE_FIELDS) {
+    if (input[field] === undefined) continue;
+    Object.assign(fields, { [field]: input[field] });
+  }
+  if (input.dueAt !== undefined) {
+    fields.dueAt = input.dueAt === null ? null : new Date(input.dueAt as number);
+  }
+  if (Array.isArray(input.subtasks)) {
+    // Same key order as stored subtasks, so they compare equal
+    fields.subtasks = (input.subtasks as Subtask[]).map(
+      ({ id, title, completed }) => ({ id, title, completed: Boolean(completed) })
+    );
+  }
+  return fields;
+};
+
+/**
+ * Three-way merge of a client edit against the current server copy.
+ * `base` is the server copy the client edited from. A field the client
+ * changed is taken from the client unless the server changed it to a
+ * different value too, in which case it is reported as a conflict.
+ */
+export const mergeTodoFields = (
+  base: Partial<TodoFields>,
+  local: Partial<TodoFields>,
+  remote: TodoFields
+): MergeResult => {
+  const merged: Partial<TodoFields> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of MERGEABLE_FIELDS) {
+    if (local[field] === undefined) continue;
+
+    const localChanged = !sameValue(local[field], base[field]);
+    const remoteChanged = !sameValue(remote[field], base[field]);
+
+    if (!localChanged) continue;
+    if (remoteChanged && !sameValue(local[field], remote[field])) {
+      conflicts.push({
+        field,
+        base: base[field],
+        local: local[field],
+        remote: remote[field],
+      });
+    } else {
+      Object.assign(merged, { [field]: local[field] });
+    }
+  }
+
+  return { merged, conflicts };
+};
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import List, { IList, ListRole } from '../models/List';
+import { ITodo } from '../models/Todo';
+
+export const canWrite = (role: ListRole | null) =>
+  role === 'owner' || role === 'editor';
+
+export const getRole = (list: IList, userId: string): ListRole | null =>
+  list.members.find((member) => member.userId.toString() === userId)?.role ??
+  null;
+
+// Ids of every list the user is a member of
+export const getMemberListIds = async (userId: string) => {
+  const lists = await List.find({ 'members.userId': userId }, { _id: 1 });
+  return lists.map((list) => list._id as mongoose.Types.ObjectId);
+};
+
+// Matches the user's personal todos and todos in lists they belong to
+export const visibleTodosFilter = async (
+  userId: string
+): Promise<mongoose.FilterQuery<ITodo>> => ({
+  $or: [
+    { ownerId: userId, listId: null },
+    { listId: { $in: await getMemberListIds(userId) } },
+  ],
+});
+
+// The user's role for a todo's list; personal todos are owned outright
+export const getTodoRole = async (
+  listId: string | mongoose.Types.ObjectId | undefined | null,
+  userId: string
+): Promise<ListRole | null> => {
+  if (!listId) return 'owner';
+  if (!mongoose.isValidObjectId(listId)) return null;
+  const list = await List.findById(listId);
+  return list ? getRole(list, userId) : null;
+};
+
+// Users who should hear about changes to todos in the given list
+export const getAudience = async (
+  listId: string | mongoose.Types.ObjectId | undefined | null,
+  ownerId: string
+) => {
+  if (!listId) return [ownerId];
+  const list = await List.findById(listId);
+  return list ? list.members.map((member) => member.userId.toString()) : [];
+};
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { TodoDoc } from '../models/Todo';
+
+export type TodoChangeEvent = {
+  todos: TodoDoc[];
+};
+
+type AddressedTodoChangeEvent = TodoChangeEvent & { userIds: string[] };
+
+// In-process bus for todo changes, relayed to connected clients over SSE
+const todoEvents = new EventEmitter();
+// Every open event stream adds a listener
+todoEvents.setMaxListeners(0);
+
+export const broadcastTodoChanges = (userIds: string[], todos: TodoDoc[]) => {
+  if (todos.length === 0 || userIds.length === 0) return;
+  todoEvents.emit('change', {
+    userIds,
+    todos,
+  } satisfies AddressedTodoChangeEvent);
+};
+
+// Subscribes to changes one user is allowed to see
+export const onTodoChanges = (
+  userId: string,
+  listener: (event: TodoChangeEvent) => void
+) => {
+  const handler = (event: AddressedTodoChangeEvent) => {
+    if (event.userIds.includes(userId)) listener({ todos: event.todos });
+  };
+  todoEvents.on('change', handler);
+  return () => {
+    todoEvents.off('change', handler);
+  };
+};
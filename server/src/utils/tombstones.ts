@@ -0,0 +1,35 @@
+import Todo from '../models/Todo';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How long deleted todos are kept so offline clients can learn about the
+// delete. A client that hasn't pulled for longer than this must resync
+// fully. Read when needed, since .env is loaded after modules are imported.
+export const getTombstoneRetentionMs = () =>
+  Number(process.env.TOMBSTONE_RETENTION_DAYS || 30) * DAY;
+
+const getPurgeIntervalMs = () =>
+  Number(process.env.TOMBSTONE_PURGE_INTERVAL_MINUTES || 60) * 60 * 1000;
+
+// Removes tombstones older than the retention window
+export const purgeTombstones = async () => {
+  const cutoff = new Date(Date.now() - getTombstoneRetentionMs());
+  const { deletedCount } = await Todo.deleteMany({
+    deleted: true,
+    deletedAt: { $lt: cutoff },
+  });
+  if (deletedCount > 0) {
+    console.log(`Purged ${deletedCount} tombstones deleted before ${cutoff.toISOString()}`);
+  }
+  return deletedCount;
+};
+
+export const startTombstonePurge = () => {
+  const run = () =>
+    purgeTombstones().catch((error) =>
+      console.error('Error purging tombstones:', error)
+    );
+  run();
+  // Don't keep the process alive just for the purge
+  setInterval(run, getPurgeIntervalMs()).unref();
+};
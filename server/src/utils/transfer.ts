@@ -0,0 +1,32 @@
+import { TodoDoc } from '../models/Todo';
+import {
+  EXPORT_CONTENT,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportedTodo,
+  formatExport,
+} from '../../../shared/transfer';
+
+export { EXPORT_CONTENT, EXPORT_FORMATS };
+export type { ExportFormat };
+
+const toExportedTodo = (todo: TodoDoc): ExportedTodo => ({
+  clientId: todo.clientId,
+  serverId: String(todo._id),
+  listId: todo.listId ? String(todo.listId) : undefined,
+  title: todo.title,
+  completed: todo.completed,
+  dueAt: todo.dueAt ? todo.dueAt.getTime() : null,
+  priority: todo.priority ?? null,
+  notes: todo.notes ?? '',
+  tags: todo.tags ?? [],
+  subtasks: todo.subtasks ?? [],
+  createdAt: todo.createdAt.toISOString(),
+  updatedAt: todo.updatedAt.toISOString(),
+  syncedAt: todo.syncedAt.toISOString(),
+  version: todo.version,
+});
+
+// Same files the desktop app exports, so either can import the other's
+export const formatTodos = (todos: TodoDoc[], format: ExportFormat) =>
+  formatExport(todos.map(toExportedTodo), format);
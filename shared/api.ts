@@ -0,0 +1,110 @@
+// Shapes of the sync server's HTTP API, used by both the server and the app
+// so the two can't drift. Dates are `Date` on the server and arrive in the
+// app as ISO strings, hence the `TDate` parameters.
+
+export type ErrorDetail = { path: string; message: string };
+
+// Body of every error response
+export type ErrorBody = {
+  code: string;
+  message: string;
+  details?: ErrorDetail[];
+};
+
+// "Invalid request body (email: Must be an email address)"
+export const describeError = (message: string, details?: ErrorDetail[]) =>
+  details && details.length > 0
+    ? `${message} (${details
+        .map((detail) => `${detail.path || "request"}: ${detail.message}`)
+        .join("; ")})`
+    : message;
+
+export const TODO_PRIORITIES = ["low", "medium", "high"] as const;
+export type Priority = (typeof TODO_PRIORITIES)[number];
+
+// Largest todo the server accepts. Titles and tags are measured trimmed.
+export const TODO_LIMITS = {
+  title: 500,
+  notes: 10000,
+  tag: 50,
+  tags: 50,
+  subtaskTitle: 500,
+  subtasks: 200,
+} as const;
+
+export const LIST_ROLES = ["owner", "editor", "viewer"] as const;
+export type ListRole = (typeof LIST_ROLES)[number];
+
+export type Subtask = {
+  id: string; // Generated by the client so subtasks can be edited offline
+  title: string;
+  completed: boolean;
+};
+
+// A todo as the server sends it
+export type ApiTodo<TDate = string> = {
+  _id: string;
+  clientId: string;
+  listId: string | null;
+  title: string;
+  completed: boolean;
+  dueAt: TDate | null;
+  priority: Priority | null;
+  notes: string;
+  tags: string[];
+  subtasks: Subtask[];
+  createdAt: TDate;
+  updatedAt: TDate;
+  syncedAt: TDate;
+  deleted: boolean;
+  deletedAt: TDate | null;
+  version: number;
+};
+
+// A field both sides changed since the version the client edited from
+export type ApiFieldConflict = {
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+// Outcome of one operation sent to POST /todos/sync. `todo` is the
+// canonical server copy whenever there is one.
+export type SyncResult<TDate = string> = {
+  opId?: number;
+  id?: string;
+  clientId?: string;
+  status: "applied" | "conflict" | "rejected" | "not_found";
+  todo?: ApiTodo<TDate>;
+  fields?: ApiFieldConflict[];
+  code?: string;
+  error?: string;
+  details?: ErrorDetail[];
+};
+
+export type SyncResponse<TDate = string> = {
+  results: SyncResult<TDate>[];
+};
+
+// A page of GET /todos/changes
+export type ChangesResponse<TDate = string> = {
+  todos: ApiTodo<TDate>[];
+  cursor: string | null;
+  hasMore: boolean;
+};
+
+// A shared list as one of its members sees it
+export type ApiList<TDate = string> = {
+  _id: string;
+  name: string;
+  role: ListRole | null;
+  members: { userId: string; email?: string; role: ListRole }[];
+  createdAt: TDate;
+  updatedAt: TDate;
+};
+
+export type AuthResponse = {
+  token: string;
+  user: { id: string; email: string };
+};
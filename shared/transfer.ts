@@ -0,0 +1,132 @@
+// File formats todos are exported in. The app and the server both write
+// them from here, so either can import the other's files.
+
+import type { Priority, Subtask } from "./api";
+
+export const EXPORT_FORMATS = ["json", "csv", "markdown"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT: Record<
+  ExportFormat,
+  { type: string; extension: string }
+> = {
+  json: { type: "application/json", extension: "json" },
+  csv: { type: "text/csv", extension: "csv" },
+  markdown: { type: "text/markdown", extension: "md" },
+};
+
+// Identifies our JSON files; bump the version if the todo shape changes
+export const EXPORT_APP = "offline-todos";
+export const EXPORT_VERSION = 1;
+
+// A todo in the JSON format. Due dates are epoch milliseconds like the sync
+// protocol, other times ISO strings.
+export type ExportedTodo = {
+  clientId: string;
+  serverId?: string;
+  listId?: string;
+  title: string;
+  completed: boolean;
+  dueAt: number | null;
+  priority: Priority | null;
+  notes: string;
+  tags: string[];
+  subtasks: Subtask[];
+  createdAt: string;
+  updatedAt: string;
+  syncedAt?: string;
+  version?: number;
+};
+
+export const CSV_COLUMNS = [
+  "title",
+  "completed",
+  "dueAt",
+  "priority",
+  "tags",
+  "notes",
+  "subtasks",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+const checkbox = (completed: boolean) => (completed ? "[x]" : "[ ]");
+
+// Checklist items can't span lines
+const oneLine = (text: string) => text.replace(/\s*\n\s*/g, " ");
+
+// Quotes a CSV field when it holds a separator, quote or line break
+const csvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Subtasks share one CSV field, a "[x] title" line each
+const toSubtaskLines = (subtasks: Subtask[]) =>
+  subtasks
+    .map((subtask) => `${checkbox(subtask.completed)} ${oneLine(subtask.title)}`)
+    .join("\n");
+
+const SUBTASK_LINE = /^\s*\[([ xX])\]\s+(.*)$/;
+
+// Reads the subtasks field of a CSV export. Lines without a checkbox are
+// open subtasks.
+export const parseSubtaskLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = SUBTASK_LINE.exec(line);
+      return match
+        ? { title: match[2].trim(), completed: match[1] !== " " }
+        : { title: line.trim(), completed: false };
+    })
+    .filter((subtask) => subtask.title);
+
+const toCsv = (todos: ExportedTodo[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...todos.map((todo) =>
+      [
+        todo.title,
+        String(todo.completed),
+        todo.dueAt === null ? "" : new Date(todo.dueAt).toISOString(),
+        todo.priority ?? "",
+        todo.tags.join(";"),
+        todo.notes,
+        toSubtaskLines(todo.subtasks),
+        todo.createdAt,
+        todo.updatedAt,
+      ]
+        .map(csvField)
+        .join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+const toMarkdown = (todos: ExportedTodo[]) =>
+  todos
+    .flatMap((todo) => [
+      `- ${checkbox(todo.completed)} ${oneLine(todo.title)}`,
+      ...todo.subtasks.map(
+        (subtask) => `  - ${checkbox(subtask.completed)} ${oneLine(subtask.title)}`
+      ),
+    ])
+    .join("\n") + "\n";
+
+export const formatExport = (todos: ExportedTodo[], format: ExportFormat) => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          app: EXPORT_APP,
+          version: EXPORT_VERSION,
+          exportedAt: new Date().toISOString(),
+          todos,
+        },
+        null,
+        2
+      );
+    case "csv":
+      return toCsv(todos);
+    case "markdown":
+      return toMarkdown(todos);
+  }
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  ConflictResolution,
+  Subtask,
+  TodoConflict,
+  TodoFields,
+  TodoItem,
+} from '../utils/database';
+
+type ConflictDialogProps = {
+  conflict: TodoConflict;
+  todo: TodoItem;
+  onResolve: (
+    resolution: ConflictResolution,
+    values?: Partial<TodoFields>
+  ) => void;
+};
+
+const FIELD_LABELS: Record<keyof TodoFields, string> = {
+  title: 'Title',
+  completed: 'Completed',
+  dueAt: 'Due',
+  priority: 'Priority',
+  notes: 'Notes',
+  tags: 'Tags',
+  subtasks: 'Subtasks',
+};
+
+const formatValue = (field: keyof TodoFields, value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'dueAt' && value) return new Date(value as number).toLocaleString();
+  if (field === 'subtasks' && Array.isArray(value)) {
+    return (value as Subtask[])
+      .map((subtask) => `${subtask.completed ? '[x]' : '[ ]'} ${subtask.title}`)
+      .join(', ');
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value ?? '');
+};
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  conflict,
+  todo,
+  onResolve,
+}) => {
+  const [merging, setMerging] = useState(false);
+  const [merged, setMerged] = useState<Partial<TodoFields>>(() =>
+    Object.fromEntries(conflict.fields.map((f) => [f.field, f.local]))
+  );
+
+  const handleMerge = () => {
+    if (!merging) {
+      setMerging(true);
+      return;
+    }
+    onResolve('merge', merged);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          Conflicting edit
+        </h2>
+        <p className="text-gray-600 mb-4">
+          "{todo.title}" was changed by someone else while you were editing it.
+        </p>
+
+        <div className="space-y-3 mb-6">
+          {conflict.fields.map(({ field, local, remote }) => (
+            <div key={field} className="border rounded p-3">
+              <div className="font-medium text-gray-900 mb-1">
+                {FIELD_LABELS[field]}
+              </div>
+              {!merging ? (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <div className="text-gray-500">Mine</div>
+                    <div className="whitespace-pre-wrap">{formatValue(field, local)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Theirs</div>
+                    <div className="whitespace-pre-wrap">{formatValue(field, remote)}</div>
+                  </div>
+                </div>
+              ) : field === 'title' ? (
+                <input
+                  type="text"
+                  value={String(merged.title ?? '')}
+                  onChange={(e) =>
+                    setMerged({ ...merged, title: e.target.value })
+                  }
+                  className="input w-full"
+                />
+              ) : field === 'notes' ? (
+                <textarea
+                  value={String(merged.notes ?? '')}
+                  onChange={(e) =>
+                    setMerged({ ...merged, notes: e.target.value })
+                  }
+                  rows={4}
+                  className="input w-full"
+                />
+              ) : field !== 'completed' ? (
+                // Structured fields are merged by picking one side
+                <div className="flex space-x-2">
+                  {[
+                    ['Mine', local],
+                    ['Theirs', remote],
+                  ].map(([label, value]) => (
+                    <button
+                      key={label as string}
+                      onClick={() => setMerged({ ...merged, [field]: value })}
+                      className={`btn ${merged[field] === value ? 'btn-primary' : ''}`}
+                    >
+                      {label as string}: {formatValue(field, value) || 'none'}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(merged.completed)}
+                    onChange={(e) =>
+                      setMerged({ ...merged, completed: e.target.checked })
+                    }
+                    className="h-5 w-5 rounded border-gray-300"
+                  />
+                  <span>Completed</span>
+                </label>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button onClick={() => onResolve('mine')} className="btn btn-primary">
+            Keep mine
+          </button>
+          <button onClick={() => onResolve('theirs')} className="btn">
+            Keep theirs
+          </button>
+          <button onClick={handleMerge} className="btn">
+            {merging ? 'Save merge' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
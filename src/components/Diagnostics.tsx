@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { dbService } from '../utils/database';
+import { diagnosticsService, DiagnosticRow } from '../utils/diagnostics';
+import { syncLog, SyncAttempt } from '../utils/syncLog';
+
+type DiagnosticsProps = {
+  onChanged: () => void;
+  onClose: () => void;
+};
+
+const formatTime = (time?: number) =>
+  time ? new Date(time).toLocaleString() : '—';
+
+const rowStatus = (row: DiagnosticRow) => {
+  if (row.conflict) return 'Conflict';
+  if (row.needsAction) return `Needs action: ${row.syncError ?? 'refused by the server'}`;
+  if (row.syncError) return row.syncError;
+  if (row.pending > 0) return `${row.pending} pending (${row.lastAction})`;
+  return 'Synced';
+};
+
+export const Diagnostics: React.FC<DiagnosticsProps> = ({ onChanged, onClose }) => {
+  const [rows, setRows] = useState<DiagnosticRow[]>([]);
+  const [attempts, setAttempts] = useState<SyncAttempt[]>(syncLog.getAttempts());
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadRows = async () => {
+    try {
+      setRows(await diagnosticsService.getRows());
+    } catch (error) {
+      console.error('Failed to load sync state:', error);
+      setError('Failed to load sync state');
+    }
+  };
+
+  useEffect(() => {
+    loadRows();
+    const unsubscribeDb = dbService.onChange(() => loadRows());
+    const unsubscribeLog = syncLog.onChange(setAttempts);
+    return () => {
+      unsubscribeDb();
+      unsubscribeLog();
+    };
+  }, []);
+
+  const run = async (task: () => Promise<string>) => {
+    setError(null);
+    setMessage(null);
+    setBusy(true);
+    try {
+      setMessage(await task());
+      onChanged();
+    } catch (error) {
+      console.error('Diagnostics action failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRetry = (row: DiagnosticRow) =>
+    run(async () => {
+      await diagnosticsService.retry(row);
+      return 'Sent';
+    });
+
+  const handleDiscard = (row: DiagnosticRow) => {
+    if (!window.confirm('Throw away the changes to this todo that the server has not confirmed?')) {
+      return;
+    }
+    run(async () => {
+      await diagnosticsService.discard(row);
+      return 'Local changes discarded';
+    });
+  };
+
+  const handleResync = () =>
+    run(async () => {
+      await diagnosticsService.resyncAll();
+      return 'Pulled every todo again';
+    });
+
+  const handleReset = () => {
+    const pending = rows.filter((row) => row.pending > 0 || row.conflict).length;
+    if (
+      !window.confirm(
+        `Replace your local todos with the server's copy?${
+          pending > 0 ? ` ${pending} todos with unsynced changes lose them.` : ''
+        }`
+      )
+    ) {
+      return;
+    }
+    run(async () => {
+      await diagnosticsService.resetFromServer();
+      return 'Local todos replaced with the server copy';
+    });
+  };
+
+  const handleCopy = () =>
+    run(async () => {
+      await navigator.clipboard.writeText(await diagnosticsService.getBundle());
+      return 'Diagnostics copied, without todo content or account details';
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Sync diagnostics</h2>
+          <div className="flex space-x-2">
+            <button onClick={handleResync} className="btn" disabled={busy}>
+              Full re-sync
+            </button>
+            <button onClick={handleReset} className="btn" disabled={busy}>
+              Reset from server
+            </button>
+            <button onClick={handleCopy} className="btn" disabled={busy}>
+              Copy diagnostics
+            </button>
+          </div>
+        </div>
+        {error && <div className="status-badge status-badge-error">{error}</div>}
+        {message && <div className="status-badge status-badge-success">{message}</div>}
+
+        <h3 className="font-semibold text-gray-900">Todos</h3>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No local todos</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-1">Todo</th>
+                <th>Server id</th>
+                <th>Synced</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={row.clientId}>
+                  <td className="py-1 text-gray-900">
+                    {row.title ?? <span className="text-gray-500">(deleted)</span>}
+                  </td>
+                  <td className="font-mono text-xs text-gray-500">
+                    {row.localOnly ? 'local only' : row.serverId}
+                  </td>
+                  <td className="text-gray-500">{formatTime(row.syncedAt)}</td>
+                  <td className={row.conflict || row.syncError ? 'text-red-600' : 'text-gray-500'}>
+                    {rowStatus(row)}
+                    {row.attempts > 0 && ` · ${row.attempts} failed attempts`}
+                  </td>
+                  <td className="whitespace-nowrap text-right space-x-1">
+                    {row.pending > 0 && !row.conflict && (
+                      <button onClick={() => handleRetry(row)} className="btn" disabled={busy}>
+                        Retry
+                      </button>
+                    )}
+                    {(row.pending > 0 || row.conflict) && (
+                      <button onClick={() => handleDiscard(row)} className="btn" disabled={busy}>
+                        Discard
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3 className="font-semibold text-gray-900">Recent syncs</h3>
+        {attempts.length === 0 ? (
+          <p className="text-sm text-gray-500">No syncs since the app started</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 text-sm">
+            {attempts.map((attempt) => (
+              <li key={attempt.id} className="py-2">
+                <div className="flex justify-between">
+                  <span className={attempt.outcome === 'error' ? 'text-red-600' : 'text-gray-900'}>
+                    {formatTime(attempt.startedAt)} · {attempt.manual ? 'manual' : 'automatic'} ·{' '}
+                    {attempt.outcome ? attempt.message : 'running…'}
+                  </span>
+                  {attempt.durationMs !== undefined && (
+                    <span className="text-gray-500">{attempt.durationMs} ms</span>
+                  )}
+                </div>
+                <ul className="text-xs text-gray-500 font-mono">
+                  {attempt.requests.map((request, index) => (
+                    <li key={index}>
+                      {request.method} {request.path} → {request.status ?? 'no response'} ({request.durationMs} ms)
+                    </li>
+                  ))}
+                  {attempt.notes.map((note, index) => (
+                    <li key={`note-${index}`}>{note}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="btn">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { dbService } from '../utils/database';
+
+type EncryptionProps = {
+  onClose: () => void;
+};
+
+// Long enough that guessing offline takes a while, even with PBKDF2
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const Encryption: React.FC<EncryptionProps> = ({ onClose }) => {
+  const [encrypted, setEncrypted] = useState<boolean | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    dbService.isEncrypted().then(setEncrypted);
+  }, []);
+
+  // Re-encrypting every todo can take a moment, so the dialog waits
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await task();
+      onClose();
+    } catch (error) {
+      console.error('Failed to change encryption:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change encryption');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (next !== confirmation) {
+      setError("The passphrases don't match");
+      return;
+    }
+    run(() => dbService.changePassphrase(encrypted ? current : null, next));
+  };
+
+  const handleTurnOff = () => {
+    if (!window.confirm('Store your todos unencrypted on this computer?')) return;
+    run(() => dbService.changePassphrase(current, null));
+  };
+
+  if (encrypted === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md space-y-4"
+      >
+        <h2 className="text-xl font-bold text-gray-900">Encryption</h2>
+        <p className="text-sm text-gray-500">
+          {encrypted
+            ? 'Your todos are encrypted on this computer.'
+            : 'Encrypt your todos on this computer with a passphrase. It is never stored, so a forgotten one means erasing unsynced changes.'}
+        </p>
+        {error && <div className="status-badge status-badge-error">{error}</div>}
+
+        {encrypted && (
+          <input
+            type="password"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            placeholder="Current passphrase"
+            className="input w-full"
+            required
+          />
+        )}
+        <input
+          type="password"
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          placeholder={encrypted ? 'New passphrase' : 'Passphrase'}
+          className="input w-full"
+          required={!encrypted}
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Repeat it"
+          className="input w-full"
+          required={!encrypted}
+        />
+
+        <div className="flex justify-end space-x-2">
+          {encrypted && (
+            <button
+              type="button"
+              onClick={handleTurnOff}
+              className="btn"
+              disabled={saving || !current}
+            >
+              Turn off
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="btn">
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {encrypted ? 'Change passphrase' : 'Encrypt'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { dbService } from '../utils/database';
+import {
+  applyImport,
+  exportTodos,
+  EXPORT_CONTENT,
+  formatFromFileName,
+  ImportPlan,
+  planImport,
+  TransferFormat,
+} from '../utils/transfer';
+
+type ImportExportProps = {
+  // Shared list to export from and import into; unset for personal todos
+  listId?: string;
+  listName: string;
+  readOnly?: boolean;
+  onImported: (count: number) => void;
+  onClose: () => void;
+};
+
+const FORMAT_NAMES: Record<TransferFormat, string> = {
+  json: 'JSON (complete, with sync details)',
+  csv: 'CSV',
+  markdown: 'Markdown checklist',
+};
+
+const IMPORT_FILTERS = [
+  { name: 'Todos', extensions: ['json', 'csv', 'md', 'markdown'] },
+];
+
+// Longest list of titles the preview shows
+const PREVIEW_LIMIT = 20;
+
+export const ImportExport: React.FC<ImportExportProps> = ({
+  listId,
+  listName,
+  readOnly = false,
+  onImported,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    setBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error('Import or export failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const todos = (await dbService.getAllTodos()).filter(
+        (todo) => todo.listId === listId
+      );
+      const saved = await window.api!.saveFile({
+        defaultName: `${listName.replace(/[\\/:*?"<>|]/g, '-')}.${EXPORT_CONTENT[format].extension}`,
+        content: exportTodos(todos, format),
+        filters: [{ name: FORMAT_NAMES[format], extensions: [EXPORT_CONTENT[format].extension] }],
+      });
+      if (saved) setMessage(`Exported ${todos.length} todos`);
+    });
+
+  const handleChooseFile = () =>
+    run(async () => {
+      const file = await window.api!.openFile(IMPORT_FILTERS);
+      if (!file) return;
+      const fileFormat = formatFromFileName(file.name);
+      if (!fileFormat) throw new Error('Choose a .json, .csv or .md file');
+      setFileName(file.name);
+      setPlan(await planImport(file.content, fileFormat, listId));
+    });
+
+  const handleImport = () =>
+    run(async () => {
+      if (!plan) return;
+      const created = await applyImport(plan, listId);
+      setPlan(null);
+      setFileName(null);
+      setMessage(`Imported ${created} todos`);
+      onImported(created);
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg space-y-4">
+        <h2 className="text-xl font-bold text-gray-900">
+          Import and export: {listName}
+        </h2>
+        {error && <div className="status-badge status-badge-error">{error}</div>}
+        {message && <div className="status-badge status-badge-success">{message}</div>}
+
+        <div className="flex space-x-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as TransferFormat)}
+            className="input flex-1"
+          >
+            {Object.entries(FORMAT_NAMES).map(([value, name]) => (
+              <option key={value} value={value}>{name}</option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="btn" disabled={busy}>
+            Export…
+          </button>
+        </div>
+
+        {!readOnly && (
+          <div className="space-y-2">
+            <button onClick={handleChooseFile} className="btn" disabled={busy}>
+              Import from file…
+            </button>
+
+            {plan && (
+              <div className="space-y-2 text-sm text-gray-600">
+                <p>
+                  {fileName}: {plan.create.length} to add,{' '}
+                  {plan.duplicates.length} already here,{' '}
+                  {plan.invalid.length} unreadable
+                </p>
+                {plan.create.length > 0 && (
+                  <ul className="list-disc pl-5">
+                    {plan.create.slice(0, PREVIEW_LIMIT).map((todo, index) => (
+                      <li key={index}>{todo.title}</li>
+                    ))}
+                    {plan.create.length > PREVIEW_LIMIT && (
+                      <li>and {plan.create.length - PREVIEW_LIMIT} more</li>
+                    )}
+                  </ul>
+                )}
+                {plan.duplicates.length > 0 && (
+                  <p>
+                    Skipping duplicates:{' '}
+                    {plan.duplicates
+                      .slice(0, PREVIEW_LIMIT)
+                      .map((todo) => todo.title)
+                      .join(', ')}
+                    {plan.duplicates.length > PREVIEW_LIMIT && ', …'}
+                  </p>
+                )}
+                {plan.invalid.map(({ line, reason }) => (
+                  <p key={line} className="text-red-600">
+                    Line {line}: {reason}
+                  </p>
+                ))}
+                <div className="flex justify-end space-x-2">
+                  <button onClick={() => setPlan(null)} className="btn">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    className="btn btn-primary"
+                    disabled={busy || plan.create.length === 0}
+                  >
+                    Add {plan.create.length} todos
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="btn">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
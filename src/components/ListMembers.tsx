@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ListRole, TodoList } from '../utils/database';
+import { listService } from '../utils/lists';
+
+type ListMembersProps = {
+  list: TodoList;
+  currentUserId?: string;
+  onChange: () => void;
+  onClose: () => void;
+};
+
+export const ListMembers: React.FC<ListMembersProps> = ({
+  list,
+  currentUserId,
+  onChange,
+  onClose,
+}) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ListRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = list.role === 'owner';
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error('Failed to update members:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update members');
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    run(async () => {
+      await listService.addMember(list.id, email, role);
+      setEmail('');
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">{list.name}</h2>
+          <button onClick={onClose} className="btn">Close</button>
+        </div>
+        {error && <div className="status-badge status-badge-error">{error}</div>}
+
+        <ul className="space-y-2">
+          {list.members.map((member) => (
+            <li key={member.userId} className="flex items-center justify-between">
+              <span>
+                {member.email ?? member.userId}
+                <span className="text-gray-500 ml-2">{member.role}</span>
+              </span>
+              {(isOwner || member.userId === currentUserId) && (
+                <button
+                  onClick={() => run(() => listService.removeMember(list.id, member.userId))}
+                  className="btn btn-danger"
+                >
+                  {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex space-x-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Invite by email"
+              className="input flex-1"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ListRole)}
+              className="input"
+            >
+              <option value="editor">Editor</option>
+              <option value="viewer">Viewer</option>
+              <option value="owner">Owner</option>
+            </select>
+            <button type="submit" className="btn btn-primary">Invite</button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
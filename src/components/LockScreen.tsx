@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { dbService } from '../utils/database';
+
+type LockScreenProps = {
+  children: React.ReactNode;
+};
+
+// Shows `children` only while the todos can be read. Locking unmounts
+// them, so nothing decrypted stays on screen or in their state.
+export const LockScreen: React.FC<LockScreenProps> = ({ children }) => {
+  // Null until the database says whether it's encrypted
+  const [locked, setLocked] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    dbService.isLocked().then(setLocked, (error) => {
+      console.error('Failed to open the database:', error);
+      setError('Your todos could not be opened');
+    });
+    return dbService.onLockChange(setLocked);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setUnlocking(true);
+
+    try {
+      await dbService.unlock(passphrase);
+      setPassphrase('');
+    } catch (error) {
+      console.error('Failed to unlock:', error);
+      setError(error instanceof Error ? error.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (
+      !window.confirm(
+        'Erase your local todos and turn encryption off? Changes that never synced are lost; the rest comes back from the server when you sign in.'
+      )
+    ) {
+      return;
+    }
+    try {
+      await dbService.eraseEncryptedData();
+    } catch (error) {
+      console.error('Failed to erase local data:', error);
+      setError('Failed to erase local data');
+    }
+  };
+
+  if (locked === false) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      {locked && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm space-y-4"
+        >
+          <h1 className="text-xl font-bold text-gray-900">Todos are locked</h1>
+          <p className="text-sm text-gray-500">
+            Sync is paused until you unlock.
+          </p>
+          {error && <div className="status-badge status-badge-error">{error}</div>}
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="input w-full"
+            autoFocus
+            required
+          />
+          <div className="flex items-center justify-between">
+            <button type="button" onClick={handleErase} className="text-sm text-gray-500 hover:underline">
+              Forgot passphrase?
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={unlocking}>
+              {unlocking ? 'Unlocking…' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      )}
+      {locked === null && error && (
+        <div className="status-badge status-badge-error">{error}</div>
+      )}
+    </div>
+  );
+};
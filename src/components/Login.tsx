@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { authService, AuthSession } from '../utils/auth';
+
+type LoginProps = {
+  message?: string;
+  defaultEmail?: string;
+  onLoggedIn: (session: AuthSession) => void;
+  onDismiss: () => void;
+};
+
+export const Login: React.FC<LoginProps> = ({
+  message,
+  defaultEmail = '',
+  onLoggedIn,
+  onDismiss,
+}) => {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState(defaultEmail);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const session = mode === 'login'
+        ? await authService.login(email, password)
+        : await authService.signup(email, password);
+      onLoggedIn(session);
+    } catch (error) {
+      console.error('Authentication failed:', error);
+      setError(error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm space-y-4"
+      >
+        <h2 className="text-xl font-bold text-gray-900">
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </h2>
+        {message && <p className="text-gray-600">{message}</p>}
+        {error && (
+          <div className="status-badge status-badge-error">{error}</div>
+        )}
+
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          className="input w-full"
+          required
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          className="input w-full"
+          required
+        />
+
+        <button
+          type="submit"
+          className="btn btn-primary w-full"
+          disabled={submitting}
+        >
+          {mode === 'login' ? 'Sign in' : 'Sign up'}
+        </button>
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'login' ? 'signup' : 'login')}
+            className="text-primary-600"
+          >
+            {mode === 'login' ? 'Create an account' : 'I already have an account'}
+          </button>
+          <button type="button" onClick={onDismiss} className="text-gray-500">
+            Work offline
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { AppSettings } from '../types/electron';
+import { settingsService } from '../utils/settings';
+
+type SettingsProps = {
+  onClose: () => void;
+};
+
+export const Settings: React.FC<SettingsProps> = ({ onClose }) => {
+  const [values, setValues] = useState<AppSettings>(settingsService.get());
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const serverChanged = values.serverUrl !== settingsService.get().serverUrl;
+
+  const set = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setValues({ ...values, [key]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    try {
+      await settingsService.update(values);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md space-y-4"
+      >
+        <h2 className="text-xl font-bold text-gray-900">Settings</h2>
+        {error && (
+          <div className="status-badge status-badge-error">{error}</div>
+        )}
+
+        <label className="block text-sm text-gray-600">
+          Server URL
+          <input
+            type="url"
+            value={values.serverUrl}
+            onChange={(e) => set('serverUrl', e.target.value)}
+            placeholder="https://todos.example.com/api"
+            className="input w-full"
+            required
+          />
+        </label>
+        {serverChanged && (
+          <p className="text-sm text-gray-500">
+            You'll need to sign in to the new server.
+          </p>
+        )}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={values.autoSync}
+            onChange={(e) => set('autoSync', e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          <span>Sync automatically</span>
+        </label>
+        <p className="text-sm text-gray-500">
+          Keeps syncing from the tray while the app is running.
+        </p>
+
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-sm text-gray-600">
+            Every (minutes)
+            <input
+              type="number"
+              min={1}
+              max={1440}
+              value={values.syncIntervalMinutes}
+              onChange={(e) => set('syncIntervalMinutes', e.target.valueAsNumber)}
+              disabled={!values.autoSync}
+              className="input w-full"
+              required
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Retries
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={values.maxRetries}
+              onChange={(e) => set('maxRetries', e.target.valueAsNumber)}
+              className="input w-full"
+              required
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Max delay (s)
+            <input
+              type="number"
+              min={1}
+              max={3600}
+              value={values.maxRetryDelaySeconds}
+              onChange={(e) => set('maxRetryDelaySeconds', e.target.valueAsNumber)}
+              className="input w-full"
+              required
+            />
+          </label>
+        </div>
+
+        <label className="block text-sm text-gray-600">
+          Lock after idle (minutes, 0 for never)
+          <input
+            type="number"
+            min={0}
+            max={1440}
+            value={values.autoLockMinutes}
+            onChange={(e) => set('autoLockMinutes', e.target.valueAsNumber)}
+            className="input w-full"
+            required
+          />
+        </label>
+        {values.autoLockMinutes > 0 && (
+          <p className="text-sm text-gray-500">
+            Encrypted todos stop syncing, in the tray too, until you unlock
+            them.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onClose} className="btn">
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import type { SnapshotInfo, SnapshotReason } from '../types/electron';
+import { snapshotService } from '../utils/snapshots';
+
+type SnapshotsProps = {
+  onRestored: () => void;
+  onClose: () => void;
+};
+
+const REASON_NAMES: Record<SnapshotReason, string> = {
+  scheduled: 'Automatic',
+  manual: 'Manual',
+  quit: 'On quit',
+  'before-restore': 'Before a restore',
+  'before-recovery': 'Before a recovery',
+};
+
+export const Snapshots: React.FC<SnapshotsProps> = ({ onRestored, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadSnapshots = async () => {
+    try {
+      setSnapshots(await snapshotService.list());
+    } catch (error) {
+      console.error('Failed to list snapshots:', error);
+      setError('Failed to list snapshots');
+    }
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const run = async (task: () => Promise<string>) => {
+    setError(null);
+    setMessage(null);
+    setBusy(true);
+    try {
+      setMessage(await task());
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Snapshot action failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTake = () =>
+    run(async () => {
+      await snapshotService.take('manual');
+      return 'Snapshot saved';
+    });
+
+  const handleRestore = (snapshot: SnapshotInfo) => {
+    const when = new Date(snapshot.takenAt).toLocaleString();
+    if (!window.confirm(`Roll your local todos back to ${when}? Changes made since then are kept in a new snapshot.`)) {
+      return;
+    }
+    run(async () => {
+      await snapshotService.restore(snapshot.id);
+      onRestored();
+      return `Restored the snapshot from ${when}`;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Snapshots</h2>
+          <button onClick={handleTake} className="btn" disabled={busy}>
+            Take snapshot
+          </button>
+        </div>
+        {error && <div className="status-badge status-badge-error">{error}</div>}
+        {message && <div className="status-badge status-badge-success">{message}</div>}
+
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-gray-500">No snapshots yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <div className="text-gray-900">
+                    {new Date(snapshot.takenAt).toLocaleString()}
+                  </div>
+                  <div className="text-gray-500">
+                    {REASON_NAMES[snapshot.reason]}: {snapshot.todos} todos,{' '}
+                    {snapshot.pending} unsynced changes
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  className="btn"
+                  disabled={busy}
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="btn">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
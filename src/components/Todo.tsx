@@ -1,8 +1,42 @@
-import React, { useState, useEffect } from 'react';
-import { dbService, TodoItem } from '../utils/database';
-import { syncService } from '../utils/sync';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  dbService,
+  TodoItem,
+  TodoConflict,
+  ConflictResolution,
+  DatabaseRecovery,
+  TodoFields,
+  TodoFilter,
+  TodoList,
+  TodoQuery,
+  TodoSort,
+} from '../utils/database';
+import { syncService, SyncErrorEvent } from '../utils/sync';
+import type { NetworkStatus } from '../types/electron';
+import { authService, AuthSession } from '../utils/auth';
+import { listService } from '../utils/lists';
+import { settingsService } from '../utils/settings';
+import { ConflictDialog } from './ConflictDialog';
+import { Diagnostics } from './Diagnostics';
+import { Encryption } from './Encryption';
+import { ImportExport } from './ImportExport';
+import { ListMembers } from './ListMembers';
+import { Login } from './Login';
+import { Settings } from './Settings';
+import { Snapshots } from './Snapshots';
+import { TodoDetails } from './TodoDetails';
 import '../styles/global.css';
 
+const PAGE_SIZE = 50;
+
+// "42s" or "4m 05s"
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
 type SyncStatus = {
   message: string;
   type: 'info' | 'error' | 'success';
@@ -11,18 +45,67 @@ type SyncStatus = {
 export const Todo: React.FC = () => {
   const [todos, setTodos] = useState<TodoItem[]>([]);
   const [newTodoTitle, setNewTodoTitle] = useState('');
-  const [isOnline, setIsOnline] = useState(syncService.getOnlineStatus());
+  const [networkStatus, setNetworkStatus] = useState<NetworkStatus>(
+    syncService.getNetworkStatus()
+  );
+  const isOnline = networkStatus === 'online';
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [conflicts, setConflicts] = useState<TodoConflict[]>([]);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loginPrompt, setLoginPrompt] = useState<{ message?: string } | null>(null);
+  const [lists, setLists] = useState<TodoList[]>([]);
+  // Shared list being shown; undefined for personal todos
+  const [currentListId, setCurrentListId] = useState<string | undefined>();
+  const [newListName, setNewListName] = useState('');
+  const [showMembers, setShowMembers] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [filter, setFilter] = useState<TodoFilter>('all');
+  const [sort, setSort] = useState<TodoSort>('createdAt');
+  // Cursor for the next page; null once everything is loaded
+  const [nextCursor, setNextCursor] = useState<IDBValidKey | null>(null);
+  const [conflictedTodo, setConflictedTodo] = useState<TodoItem>();
+  const [appVersion, setAppVersion] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showEncryption, setShowEncryption] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [encrypted, setEncrypted] = useState(false);
+  const [recovery, setRecovery] = useState<DatabaseRecovery | null>(null);
+  const [autoSync, setAutoSync] = useState(settingsService.get().autoSync);
+  const [faults, setFaults] = useState(settingsService.get().faults);
+  // Last failed sync, with when it will be retried
+  const [syncFailure, setSyncFailure] = useState<SyncErrorEvent | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Sync event handlers are registered once, so they read the current query
+  // and page count through refs
+  const queryRef = useRef<TodoQuery>({});
+  const loadedRef = useRef(0);
+  const newTodoInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    loadTodos();
+    loadConflicts();
+    loadLists();
+    window.api?.getVersion().then(setAppVersion);
+    dbService.getRecovery().then(setRecovery);
+    dbService.isEncrypted().then(setEncrypted);
+    authService.getSession().then((session) => {
+      setSession(session);
+      if (!session) setLoginPrompt({});
+    });
     
     // Listen for online/offline status changes
     const handleOnlineStatus = (data: unknown) => {
-      const isOnline = typeof data === 'boolean' ? data : navigator.onLine;
-      setIsOnline(isOnline);
+      const status = data as NetworkStatus;
+      const isOnline = status === 'online';
+      setNetworkStatus(status);
       setSyncStatus({
-        message: isOnline ? 'Connected' : 'Working offline',
+        message: isOnline
+          ? 'Connected'
+          : status === 'unreachable'
+          ? 'Server unreachable, working offline'
+          : 'Working offline',
         type: isOnline ? 'success' : 'info'
       });
     };
@@ -30,6 +113,7 @@ export const Todo: React.FC = () => {
     // Listen for sync events
     const handleSyncStart = () => {
       setSyncStatus({ message: 'Syncing...', type: 'info' });
+      setSyncFailure(null);
     };
 
     const handleSyncComplete = (data: unknown) => {
@@ -41,7 +125,9 @@ export const Todo: React.FC = () => {
         message, 
         type: 'success' 
       });
+      setSyncFailure(null);
       loadTodos(); // Refresh todos after successful sync
+      loadLists();
     };
 
     const handleSyncError = (data: unknown) => {
@@ -59,6 +145,26 @@ export const Todo: React.FC = () => {
         message, 
         type: 'error' 
       });
+      setSyncFailure(data as SyncErrorEvent);
+    };
+
+    const handleConflict = () => {
+      loadConflicts();
+    };
+
+    // Another client changed todos and the server pushed the change to us
+    const handleRemoteChange = () => {
+      loadTodos();
+      loadConflicts();
+    };
+
+    // Sync paused because the server wants us to sign in (again)
+    const handleAuthRequired = (data: unknown) => {
+      const message = data && typeof data === 'object' && 'message' in data
+        ? String(data.message)
+        : undefined;
+      setLoginPrompt({ message });
+      setSyncStatus({ message: 'Sign in to sync', type: 'error' });
     };
 
     // Add event listeners
@@ -66,9 +172,12 @@ export const Todo: React.FC = () => {
     syncService.addEventListener('syncStart', handleSyncStart);
     syncService.addEventListener('syncComplete', handleSyncComplete);
     syncService.addEventListener('syncError', handleSyncError);
+    syncService.addEventListener('conflict', handleConflict);
+    syncService.addEventListener('remoteChange', handleRemoteChange);
+    syncService.addEventListener('authRequired', handleAuthRequired);
 
     // Initial online status check
-    handleOnlineStatus(navigator.onLine);
+    handleOnlineStatus(syncService.getNetworkStatus());
 
     return () => {
       // Remove event listeners
@@ -76,13 +185,25 @@ export const Todo: React.FC = () => {
       syncService.removeEventListener('syncStart', handleSyncStart);
       syncService.removeEventListener('syncComplete', handleSyncComplete);
       syncService.removeEventListener('syncError', handleSyncError);
+      syncService.removeEventListener('conflict', handleConflict);
+      syncService.removeEventListener('remoteChange', handleRemoteChange);
+      syncService.removeEventListener('authRequired', handleAuthRequired);
     };
   }, []);
 
+  // Reloads as many todos as are shown, so a refresh keeps the scroll depth
   const loadTodos = async () => {
     try {
-      const allTodos = await dbService.getAllTodos();
-      setTodos(allTodos);
+      const [page, pending] = await Promise.all([
+        dbService.queryTodos({
+          ...queryRef.current,
+          limit: Math.max(PAGE_SIZE, loadedRef.current),
+        }),
+        dbService.getPendingClientIds(),
+      ]);
+      setTodos(page.todos);
+      setNextCursor(page.cursor);
+      setPendingIds(pending);
     } catch (error) {
       console.error('Failed to load todos:', error);
       setSyncStatus({
@@ -92,6 +213,196 @@ export const Todo: React.FC = () => {
     }
   };
 
+  const handleLoadMore = async () => {
+    if (nextCursor === null) return;
+    try {
+      const page = await dbService.queryTodos({
+        ...queryRef.current,
+        limit: PAGE_SIZE,
+        after: nextCursor,
+      });
+      setTodos([...todos, ...page.todos]);
+      setNextCursor(page.cursor);
+    } catch (error) {
+      console.error('Failed to load todos:', error);
+    }
+  };
+
+  const loadLists = async () => {
+    try {
+      setLists(await dbService.getLists());
+    } catch (error) {
+      console.error('Failed to load lists:', error);
+    }
+  };
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+
+    try {
+      const list = await listService.createList(newListName);
+      setNewListName('');
+      await loadLists();
+      setCurrentListId(list.id);
+    } catch (error) {
+      console.error('Failed to create list:', error);
+      setSyncStatus({
+        message: 'Failed to create list',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleMembersChange = async () => {
+    await Promise.all([loadLists(), loadTodos()]);
+  };
+
+  const loadConflicts = async () => {
+    try {
+      setConflicts(await dbService.getConflicts());
+    } catch (error) {
+      console.error('Failed to load conflicts:', error);
+    }
+  };
+
+  const handleResolveConflict = async (
+    clientId: string,
+    resolution: ConflictResolution,
+    values?: Partial<TodoFields>
+  ) => {
+    try {
+      await dbService.resolveConflict(clientId, resolution, values);
+      await Promise.all([loadTodos(), loadConflicts()]);
+
+      // Push the resolved version if online
+      if (isOnline) {
+        syncService.syncData();
+      }
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      setSyncStatus({
+        message: 'Failed to resolve conflict',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleLoggedIn = async (session: AuthSession) => {
+    setSession(session);
+    setLoginPrompt(null);
+    // Signing in as another user may have cleared local data
+    await Promise.all([loadTodos(), loadConflicts()]);
+    syncService.resume();
+  };
+
+  const handleImported = async () => {
+    await loadTodos();
+    if (isOnline) {
+      syncService.syncData();
+    }
+  };
+
+  // The database was rolled back or reset, so everything shown may have
+  // changed
+  const handleRestored = () => {
+    loadTodos();
+    loadConflicts();
+    loadLists();
+  };
+
+  const handleLogout = async () => {
+    await authService.logout();
+    setSession(null);
+    setLoginPrompt({});
+  };
+
+  // Fall back to personal todos if the list went away (e.g. we were removed)
+  const currentList = lists.find((list) => list.id === currentListId);
+  const readOnly = currentList?.role === 'viewer';
+  queryRef.current = {
+    listId: currentList?.id,
+    filter,
+    sort,
+    // Soonest due first; otherwise newest first
+    direction: sort === 'dueAt' ? 'asc' : 'desc',
+  };
+  loadedRef.current = todos.length;
+
+  useEffect(() => {
+    loadedRef.current = 0;
+    loadTodos();
+  }, [currentList?.id, filter, sort]);
+
+  // Ticks the retry countdown
+  useEffect(() => {
+    if (!syncFailure?.nextRetryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [syncFailure]);
+
+  // File > New Todo and File > Settings in the app menu
+  useEffect(
+    () =>
+      window.api?.onCommand((command) => {
+        if (command === 'new-todo') newTodoInputRef.current?.focus();
+        if (command === 'open-settings') setShowSettings(true);
+      }),
+    []
+  );
+
+  useEffect(
+    () =>
+      settingsService.onChange((settings) => {
+        setAutoSync(settings.autoSync);
+        setFaults(settings.faults);
+      }),
+    []
+  );
+
+  // Switching servers signs us out. Watched only once the saved settings
+  // are in, since loading them over the defaults isn't a switch.
+  useEffect(() => {
+    let active = true;
+    let unsubscribe: (() => void) | undefined;
+    settingsService.load().then(() => {
+      if (!active) return;
+      unsubscribe = settingsService.onChange((settings, previous) => {
+        if (settings.serverUrl !== previous.serverUrl) setSession(null);
+      });
+    });
+    return () => {
+      active = false;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // Edits and syncs in other windows or tabs show up here live
+  useEffect(
+    () =>
+      dbService.onChange(({ stores, external }) => {
+        if (!external) return;
+        if (stores.includes('todos') || stores.includes('outbox')) loadTodos();
+        if (stores.includes('conflicts')) loadConflicts();
+        if (stores.includes('lists')) loadLists();
+        if (stores.includes('encryption')) dbService.isEncrypted().then(setEncrypted);
+      }),
+    []
+  );
+
+  const activeConflict = conflicts[0];
+  const editingTodo = todos.find((todo) => todo.id === editingId);
+
+  // The conflicting todo may be outside the page being shown
+  useEffect(() => {
+    if (!activeConflict) {
+      setConflictedTodo(undefined);
+      return;
+    }
+    dbService.getTodo(activeConflict.todoId).then(setConflictedTodo);
+  }, [activeConflict]);
+
   const handleAddTodo = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTodoTitle.trim()) return;
@@ -100,8 +411,7 @@ export const Todo: React.FC = () => {
       await dbService.addTodo({
         title: newTodoTitle,
         completed: false,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
+        listId: currentList?.id,
       });
       setNewTodoTitle('');
       await loadTodos();
@@ -123,12 +433,8 @@ export const Todo: React.FC = () => {
     try {
       const todo = todos.find(t => t.id === id);
       if (todo) {
-        // Update the todo with all necessary fields
         await dbService.updateTodo(id, {
           completed: !todo.completed,
-          updatedAt: Date.now(),
-          syncedAt: undefined, // Reset sync status to trigger sync
-          lastAction: 'update'
         });
         
         await loadTodos(); // Refresh the list
@@ -147,6 +453,25 @@ export const Todo: React.FC = () => {
     }
   };
 
+  const handleSaveDetails = async (id: number, updates: Partial<TodoFields>) => {
+    try {
+      await dbService.updateTodo(id, updates);
+      setEditingId(null);
+      await loadTodos();
+
+      // Trigger sync if online
+      if (isOnline) {
+        syncService.syncData();
+      }
+    } catch (error) {
+      console.error('Failed to update todo:', error);
+      setSyncStatus({
+        message: 'Failed to update todo',
+        type: 'error'
+      });
+    }
+  };
+
   const handleDeleteTodo = async (id: number) => {
     try {
       await dbService.deleteTodo(id);
@@ -167,14 +492,94 @@ export const Todo: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
+      {editingTodo && (
+        <TodoDetails
+          todo={editingTodo}
+          readOnly={readOnly}
+          onSave={(updates) => handleSaveDetails(editingTodo.id!, updates)}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+      {showMembers && currentList && (
+        <ListMembers
+          list={currentList}
+          currentUserId={session?.user.id}
+          onChange={handleMembersChange}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+      {loginPrompt && (
+        <Login
+          message={loginPrompt.message}
+          defaultEmail={session?.user.email}
+          onLoggedIn={handleLoggedIn}
+          onDismiss={() => setLoginPrompt(null)}
+        />
+      )}
+      {showSettings && <Settings onClose={() => setShowSettings(false)} />}
+      {showTransfer && (
+        <ImportExport
+          listId={currentList?.id}
+          listName={currentList?.name ?? 'Personal'}
+          readOnly={readOnly}
+          onImported={handleImported}
+          onClose={() => setShowTransfer(false)}
+        />
+      )}
+      {showEncryption && (
+        <Encryption
+          onClose={() => {
+            setShowEncryption(false);
+            dbService.isEncrypted().then(setEncrypted);
+          }}
+        />
+      )}
+      {showSnapshots && (
+        <Snapshots
+          onRestored={handleRestored}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+      {showDiagnostics && (
+        <Diagnostics
+          onChanged={handleRestored}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+      {activeConflict && conflictedTodo && (
+        <ConflictDialog
+          key={activeConflict.clientId}
+          conflict={activeConflict}
+          todo={conflictedTodo}
+          onResolve={(resolution, values) =>
+            handleResolveConflict(activeConflict.clientId, resolution, values)
+          }
+        />
+      )}
       <div className="container mx-auto px-4 max-w-2xl">
         <div className="bg-white rounded-lg shadow-lg p-6">
           <div className="flex items-center justify-between mb-6">
-            <h1 className="text-2xl font-bold text-gray-900">Todo List</h1>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Todo List
+              {appVersion && (
+                <span className="ml-2 text-sm font-normal text-gray-400">
+                  v{appVersion}
+                </span>
+              )}
+            </h1>
             <div className="flex items-center space-x-4">
               <div className={`status-badge ${isOnline ? 'status-badge-success' : 'status-badge-warning'}`}>
-                {isOnline ? 'Online' : 'Offline'}
+                {isOnline
+                  ? 'Online'
+                  : networkStatus === 'unreachable'
+                  ? 'Server unreachable'
+                  : 'Offline'}
               </div>
+              {faults && (
+                <div className="status-badge status-badge-warning">
+                  Faults: {faults.scenario}
+                </div>
+              )}
               {syncStatus && (
                 <div className={`status-badge ${
                   syncStatus.type === 'error'
@@ -186,23 +591,165 @@ export const Todo: React.FC = () => {
                   {syncStatus.message}
                 </div>
               )}
+              {!autoSync && session && (
+                <button
+                  onClick={() => syncService.syncData({ manual: true })}
+                  className="btn"
+                  disabled={!isOnline}
+                >
+                  Sync now
+                </button>
+              )}
+              <button onClick={() => setShowSettings(true)} className="btn">
+                Settings
+              </button>
+              {encrypted && (
+                <button onClick={() => dbService.lock()} className="btn">
+                  Lock
+                </button>
+              )}
+              {session ? (
+                <button onClick={handleLogout} className="btn" title={session.user.email}>
+                  Sign out
+                </button>
+              ) : (
+                <button onClick={() => setLoginPrompt({})} className="btn btn-primary">
+                  Sign in
+                </button>
+              )}
             </div>
           </div>
 
-          <form onSubmit={handleAddTodo} className="mb-6">
-            <div className="flex space-x-2">
-              <input
-                type="text"
-                value={newTodoTitle}
-                onChange={(e) => setNewTodoTitle(e.target.value)}
-                placeholder="What needs to be done?"
-                className="input flex-1"
-              />
-              <button type="submit" className="btn btn-primary">
-                Add Todo
+          {recovery && (
+            <div className="flex items-center justify-between status-badge status-badge-warning mb-4">
+              <span>
+                {recovery.cause === 'missing'
+                  ? 'Your local todos were missing'
+                  : 'Your local todos were damaged'}
+                {' '}and have been restored from the snapshot of{' '}
+                {new Date(recovery.takenAt).toLocaleString()}.
+                {recovery.cause === 'damaged' &&
+                  ' What could still be read is kept under Snapshots.'}
+              </span>
+              <button onClick={() => setRecovery(null)} className="btn">
+                Dismiss
               </button>
             </div>
-          </form>
+          )}
+
+          {syncFailure && syncFailure.kind !== 'auth' && (
+            <div className="flex items-center justify-between status-badge status-badge-warning mb-4">
+              <span>
+                {syncFailure.nextRetryAt === null
+                  ? 'Sync failed and will not retry on its own.'
+                  : syncFailure.circuitOpen
+                  ? `Sync keeps failing, pausing for ${formatCountdown(syncFailure.nextRetryAt - now)}.`
+                  : `Retrying in ${formatCountdown(syncFailure.nextRetryAt - now)} (attempt ${syncFailure.attempt}).`}
+              </span>
+              <button
+                onClick={() => syncService.retryNow()}
+                className="btn"
+                disabled={!isOnline}
+              >
+                Retry now
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2 mb-4">
+            <select
+              value={currentList?.id ?? ''}
+              onChange={(e) => setCurrentListId(e.target.value || undefined)}
+              className="input"
+            >
+              <option value="">Personal</option>
+              {lists.map((list) => (
+                <option key={list.id} value={list.id}>
+                  {list.name}{list.role === 'viewer' ? ' (read-only)' : ''}
+                </option>
+              ))}
+            </select>
+            {currentList && (
+              <button onClick={() => setShowMembers(true)} className="btn">
+                Members
+              </button>
+            )}
+            {window.api && (
+              <button onClick={() => setShowTransfer(true)} className="btn">
+                Import/Export
+              </button>
+            )}
+            {window.api && (
+              <button onClick={() => setShowSnapshots(true)} className="btn">
+                Snapshots
+              </button>
+            )}
+            <button onClick={() => setShowEncryption(true)} className="btn">
+              Encryption
+            </button>
+            <button onClick={() => setShowDiagnostics(true)} className="btn">
+              Diagnostics
+            </button>
+            {session && (
+              <form onSubmit={handleCreateList} className="flex space-x-2 flex-1">
+                <input
+                  type="text"
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                  placeholder="New shared list"
+                  className="input flex-1"
+                />
+                <button type="submit" className="btn" disabled={!isOnline}>
+                  Create
+                </button>
+              </form>
+            )}
+          </div>
+
+          {readOnly ? (
+            <div className="status-badge status-badge-info mb-6">
+              You can view this list but not change it
+            </div>
+          ) : (
+            <form onSubmit={handleAddTodo} className="mb-6">
+              <div className="flex space-x-2">
+                <input
+                  ref={newTodoInputRef}
+                  type="text"
+                  value={newTodoTitle}
+                  onChange={(e) => setNewTodoTitle(e.target.value)}
+                  placeholder="What needs to be done?"
+                  className="input flex-1"
+                />
+                <button type="submit" className="btn btn-primary">
+                  Add Todo
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex space-x-2">
+              {(['all', 'active', 'completed'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setFilter(value)}
+                  className={`btn ${filter === value ? 'btn-primary' : ''}`}
+                >
+                  {value.charAt(0).toUpperCase() + value.slice(1)}
+                </button>
+              ))}
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as TodoSort)}
+              className="input"
+            >
+              <option value="createdAt">Newest first</option>
+              <option value="updatedAt">Recently updated</option>
+              <option value="dueAt">Due date</option>
+            </select>
+          </div>
 
           <div className="space-y-3">
             {todos.map((todo) => (
@@ -212,32 +759,65 @@ export const Todo: React.FC = () => {
                     type="checkbox"
                     checked={todo.completed}
                     onChange={() => handleToggleTodo(todo.id!)}
+                    disabled={readOnly}
                     className="h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className={`text-lg ${todo.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>
-                    {todo.title}
-                  </span>
+                  <div>
+                    <span className={`text-lg ${todo.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                      {todo.title}
+                    </span>
+                    <div className="flex flex-wrap gap-2 text-sm text-gray-500">
+                      {todo.priority && <span>{todo.priority} priority</span>}
+                      {todo.dueAt && (
+                        <span>Due {new Date(todo.dueAt).toLocaleString()}</span>
+                      )}
+                      {todo.subtasks && todo.subtasks.length > 0 && (
+                        <span>
+                          {todo.subtasks.filter((s) => s.completed).length}/
+                          {todo.subtasks.length} subtasks
+                        </span>
+                      )}
+                      {todo.tags?.map((tag) => <span key={tag}>#{tag}</span>)}
+                    </div>
+                    {todo.syncError && (
+                      <div className="text-sm text-red-600">{todo.syncError}</div>
+                    )}
+                  </div>
                 </div>
                 <div className="flex items-center space-x-4">
-                  {!todo.syncedAt && (
+                  {conflicts.some((c) => c.todoId === todo.id) ? (
+                    <span className="status-badge status-badge-error">
+                      Conflict
+                    </span>
+                  ) : pendingIds.has(todo.clientId) && (
                     <span className="status-badge status-badge-warning">
                       Not synced
                     </span>
                   )}
-                  <button
-                    onClick={() => handleDeleteTodo(todo.id!)}
-                    className="btn btn-danger"
-                  >
-                    Delete
+                  <button onClick={() => setEditingId(todo.id!)} className="btn">
+                    Details
                   </button>
+                  {!readOnly && (
+                    <button
+                      onClick={() => handleDeleteTodo(todo.id!)}
+                      className="btn btn-danger"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
             {todos.length === 0 && (
               <div className="text-center py-8 text-gray-500">
-                No todos yet. Add one above!
+                {filter === 'all' ? 'No todos yet. Add one above!' : 'Nothing here.'}
               </div>
             )}
+            {nextCursor !== null && (
+              <button onClick={handleLoadMore} className="btn w-full">
+                Load more
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Priority, Subtask, TodoFields, TodoItem } from '../utils/database';
+
+type TodoDetailsProps = {
+  todo: TodoItem;
+  readOnly?: boolean;
+  onSave: (updates: Partial<TodoFields>) => void;
+  onClose: () => void;
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toInputValue = (time?: number) => {
+  if (!time) return '';
+  const date = new Date(time);
+  return new Date(time - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export const TodoDetails: React.FC<TodoDetailsProps> = ({
+  todo,
+  readOnly = false,
+  onSave,
+  onClose,
+}) => {
+  const [title, setTitle] = useState(todo.title);
+  const [dueAt, setDueAt] = useState(toInputValue(todo.dueAt));
+  const [priority, setPriority] = useState<Priority | ''>(todo.priority ?? '');
+  const [notes, setNotes] = useState(todo.notes ?? '');
+  const [tags, setTags] = useState((todo.tags ?? []).join(', '));
+  const [subtasks, setSubtasks] = useState<Subtask[]>(todo.subtasks ?? []);
+  const [newSubtask, setNewSubtask] = useState('');
+
+  const updateSubtask = (id: string, updates: Partial<Subtask>) => {
+    setSubtasks(subtasks.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  const handleAddSubtask = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim()) return;
+    setSubtasks([
+      ...subtasks,
+      { id: crypto.randomUUID(), title: newSubtask.trim(), completed: false },
+    ]);
+    setNewSubtask('');
+  };
+
+  const handleSave = () => {
+    if (!title.trim()) return;
+    onSave({
+      title: title.trim(),
+      dueAt: dueAt ? new Date(dueAt).getTime() : undefined,
+      priority: priority || undefined,
+      notes: notes || undefined,
+      tags: [...new Set(tags.split(',').map((t) => t.trim()).filter(Boolean))],
+      subtasks: subtasks.filter((s) => s.title.trim()),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg space-y-4">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={readOnly}
+          className="input w-full text-lg font-bold"
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm text-gray-600">
+            Due
+            <input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              disabled={readOnly}
+              className="input w-full"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Priority
+            <select
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as Priority | '')}
+              disabled={readOnly}
+              className="input w-full"
+            >
+              <option value="">None</option>
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </label>
+        </div>
+
+        <label className="block text-sm text-gray-600">
+          Tags
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            disabled={readOnly}
+            placeholder="work, errands"
+            className="input w-full"
+          />
+        </label>
+
+        <label className="block text-sm text-gray-600">
+          Notes
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            disabled={readOnly}
+            rows={4}
+            className="input w-full"
+          />
+        </label>
+
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">Subtasks</div>
+          {subtasks.map((subtask) => (
+            <div key={subtask.id} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={subtask.completed}
+                onChange={(e) =>
+                  updateSubtask(subtask.id, { completed: e.target.checked })
+                }
+                disabled={readOnly}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <input
+                type="text"
+                value={subtask.title}
+                onChange={(e) =>
+                  updateSubtask(subtask.id, { title: e.target.value })
+                }
+                disabled={readOnly}
+                className="input flex-1"
+              />
+              {!readOnly && (
+                <button
+                  onClick={() =>
+                    setSubtasks(subtasks.filter((s) => s.id !== subtask.id))
+                  }
+                  className="btn btn-danger"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          {!readOnly && (
+            <form onSubmit={handleAddSubtask} className="flex space-x-2">
+              <input
+                type="text"
+                value={newSubtask}
+                onChange={(e) => setNewSubtask(e.target.value)}
+                placeholder="Add a subtask"
+                className="input flex-1"
+              />
+              <button type="submit" className="btn">Add</button>
+            </form>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button onClick={onClose} className="btn">
+            {readOnly ? 'Close' : 'Cancel'}
+          </button>
+          {!readOnly && (
+            <button onClick={handleSave} className="btn btn-primary">
+              Save
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,32 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { LockScreen } from './components/LockScreen'
 import { Todo } from './components/Todo'
+import { autoLock } from './utils/autoLock'
+import { desktopIntegration } from './utils/desktop'
+import { settingsService } from './utils/settings'
+import { snapshotService } from './utils/snapshots'
+import { syncService } from './utils/sync'
 import './styles/global.css'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <Todo />
-  </StrictMode>,
-)
+// The desktop app also loads this page in a hidden window that only syncs
+// (see electron/syncWorker.ts); it has no UI, snapshots or auto-lock
+const isSyncWorker = window.api && window.location.hash === '#sync-worker'
+
+desktopIntegration.start()
+
+if (isSyncWorker) {
+  // Hidden, so the service's own first sync on a visible page never runs
+  settingsService.load().then(() => syncService.syncData())
+} else {
+  snapshotService.start()
+  autoLock.start()
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <LockScreen>
+        <Todo />
+      </LockScreen>
+    </StrictMode>,
+  )
+}
@@ -0,0 +1,120 @@
+// "unreachable" means there is a network but the sync server doesn't answer
+export type NetworkStatus = 'offline' | 'unreachable' | 'online';
+
+// What the tray shows. "pending" means there are local changes the server
+// hasn't confirmed yet.
+export interface SyncState {
+  status: 'synced' | 'pending' | 'syncing' | 'error';
+  pending: number;
+  conflicts: number;
+  // Failed sync attempts in a row, reset by a successful sync
+  failures: number;
+  error?: string;
+}
+
+// Settings the main process keeps in the user data folder
+export interface AppSettings {
+  // Base URL of the sync server's API, e.g. https://todos.example.com/api
+  serverUrl: string;
+  // Off means syncing only happens on "Sync now"
+  autoSync: boolean;
+  syncIntervalMinutes: number;
+  // Retries of a failed sync before waiting for the next scheduled one
+  maxRetries: number;
+  // Cap on the backoff between retries and server event reconnects
+  maxRetryDelaySeconds: number;
+  // Locks encrypted todos after this long without input; 0 never does
+  autoLockMinutes: number;
+  // Developer mode that makes API requests misbehave; null when off
+  faults: FaultSettings | null;
+}
+
+// Faults injected into the renderer's API requests, to reproduce offline
+// and sync bugs without touching the network or the server
+export interface FaultSettings {
+  scenario: string; // Name shown in the Developer menu
+  offline: boolean; // Every request fails and the app reports offline
+  latencyMs: number; // Added before each request
+  dropPercent: number; // Requests that fail as if the connection dropped
+  // Status /todos/sync answers with instead of reaching the server
+  syncStatus: number | null;
+  truncatePercent: number; // Responses whose body is cut off halfway
+  seed: number; // Random faults repeat exactly for the same seed
+}
+
+export interface FileFilter {
+  name: string;
+  extensions: string[];
+}
+
+export interface SaveFileOptions {
+  // Suggested file name; the user picks the folder
+  defaultName: string;
+  content: string;
+  filters: FileFilter[];
+}
+
+export interface OpenedFile {
+  name: string;
+  content: string;
+}
+
+// Menu and tray actions the main process asks the renderer to carry out
+export type AppCommand = 'new-todo' | 'sync-now' | 'open-settings' | 'lock';
+
+export type SnapshotReason =
+  | 'scheduled'
+  | 'manual'
+  | 'quit'
+  | 'before-restore'
+  | 'before-recovery';
+
+// A saved copy of the local database
+export interface SnapshotInfo {
+  id: string;
+  takenAt: number;
+  reason: SnapshotReason;
+  dbVersion: number; // Schema version of the copied database
+  todos: number;
+  pending: number; // Outbox operations not yet synced when it was taken
+}
+
+// The bridge the preload script exposes as `window.api`. It is the only way
+// the renderer can reach the main process.
+export interface ElectronApi {
+  platform: string;
+  getVersion(): Promise<string>;
+  getNetworkStatus(): Promise<NetworkStatus>;
+  // Asks for a probe now, e.g. after a request failed
+  checkNetwork(): Promise<NetworkStatus>;
+  // Returns a function that removes the listener
+  onNetworkStatus(listener: (status: NetworkStatus) => void): () => void;
+  reportSyncState(state: SyncState): void;
+  onCommand(listener: (command: AppCommand) => void): () => void;
+  // The main process schedules syncs so they run while the window is hidden
+  onSyncRequest(listener: () => void): () => void;
+  // Called when the app is about to quit; it waits for the returned promise
+  onBeforeQuit(listener: () => Promise<void>): () => void;
+  getSettings(): Promise<AppSettings>;
+  // Rejects if a value is invalid; resolves with the saved settings
+  updateSettings(changes: Partial<AppSettings>): Promise<AppSettings>;
+  onSettingsChanged(listener: (settings: AppSettings) => void): () => void;
+  // Native save and open dialogs. Resolve with false or null if cancelled.
+  saveFile(options: SaveFileOptions): Promise<boolean>;
+  openFile(filters: FileFilter[]): Promise<OpenedFile | null>;
+  // Copies of the local database kept in the user data folder
+  saveSnapshot(
+    info: Omit<SnapshotInfo, 'id' | 'takenAt'>,
+    data: string
+  ): Promise<SnapshotInfo>;
+  // Newest first, leaving out any that fail their checksum
+  listSnapshots(): Promise<SnapshotInfo[]>;
+  readSnapshot(id: string): Promise<string>;
+}
+
+declare global {
+  interface Window {
+    // Unset when the renderer runs in a plain browser, e.g. `npm run dev`
+    api?: ElectronApi;
+  }
+}
@@ -0,0 +1,135 @@
+import { apiUrl } from "./settings";
+import { dbService } from "./database";
+import { faultInjector } from "./faults";
+import { syncLog } from "./syncLog";
+import { AuthResponse, describeError, ErrorBody } from "../../shared/api";
+
+type AuthUser = AuthResponse["user"];
+
+type AuthSession = AuthResponse;
+
+const SESSION_KEY = "authSession";
+const LAST_USER_KEY = "lastUserId";
+
+// Thrown when the server rejects or we don't have credentials
+class AuthError extends Error {
+  constructor(message = "Authentication required") {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+class AuthService {
+  // undefined until loaded from IndexedDB
+  private session: AuthSession | null | undefined;
+
+  constructor() {
+    // Signed in or out in another window, such as the app window for the
+    // sync worker; read the session again when it's next needed
+    dbService.onChange(({ stores, external }) => {
+      if (external && stores.includes("session")) this.session = undefined;
+    });
+  }
+
+  async getSession() {
+    if (this.session === undefined) {
+      this.session = (await dbService.getMeta<AuthSession>(SESSION_KEY)) ?? null;
+    }
+    return this.session;
+  }
+
+  async getToken() {
+    return (await this.getSession())?.token ?? null;
+  }
+
+  login(email: string, password: string) {
+    return this.authenticate("login", email, password);
+  }
+
+  signup(email: string, password: string) {
+    return this.authenticate("signup", email, password);
+  }
+
+  // fetch() against the API with the session's bearer token, through any
+  // faults injected for testing
+  async fetch(path: string, init: RequestInit = {}) {
+    const token = await this.getToken();
+    if (!token) throw new AuthError();
+
+    const startedAt = Date.now();
+    const record = (status: number | null) =>
+      syncLog.request({
+        method: init.method ?? "GET",
+        path,
+        status,
+        durationMs: Date.now() - startedAt,
+      });
+    let response: Response;
+    try {
+      response = await faultInjector.fetch(path, apiUrl(path), {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${token}` },
+      });
+    } catch (error) {
+      record(null);
+      throw error;
+    }
+    record(response.status);
+    if (response.status === 401) {
+      throw new AuthError("Your session has expired, please sign in again");
+    }
+    return response;
+  }
+
+  async logout() {
+    this.session = null;
+    await dbService.setMeta(SESSION_KEY, null, "session");
+  }
+
+  private async authenticate(
+    endpoint: "login" | "signup",
+    email: string,
+    password: string
+  ) {
+    const response = await fetch(apiUrl(`/auth/${endpoint}`), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const { message, details }: Partial<ErrorBody> = data;
+      throw new AuthError(describeError(message || response.statusText, details));
+    }
+
+    const { token, user }: AuthResponse = data;
+    const session: AuthSession = { token, user };
+    await this.switchUser(session.user);
+    await dbService.setMeta(SESSION_KEY, session, "session");
+    this.session = session;
+    return session;
+  }
+
+  // Local data belongs to whoever last signed in. Another account starts
+  // from an empty database, but never at the cost of unsynced changes.
+  private async switchUser(user: AuthUser) {
+    const lastUserId = await dbService.getMeta<string>(LAST_USER_KEY);
+    if (lastUserId && lastUserId !== user.id) {
+      const pending = await dbService.getPendingClientIds();
+      if (pending.size > 0) {
+        throw new AuthError(
+          "Sign in with the previous account to sync its pending changes first"
+        );
+      }
+      await dbService.clearLocalData();
+    }
+    await dbService.setMeta(LAST_USER_KEY, user.id);
+  }
+}
+
+export const authService = new AuthService();
+export { AuthError, SESSION_KEY, LAST_USER_KEY };
+export type { AuthUser, AuthSession };
@@ -0,0 +1,53 @@
+import { dbService } from "./database";
+import { settingsService } from "./settings";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel"];
+
+/**
+ * Locks encrypted todos after the configured minutes without keyboard or
+ * pointer input, so a window left open on a shared machine doesn't stay
+ * readable. Locking also pauses sync, background sync from the tray
+ * included, since nothing can be read or written without the key; the
+ * lock screen and settings say so.
+ */
+class AutoLock {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivity = Date.now();
+
+  start() {
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, this.handleActivity, { passive: true });
+    }
+    settingsService.onChange(() => this.schedule());
+    dbService.onLockChange(() => this.schedule());
+    this.schedule();
+  }
+
+  // Only noted here; the timer compares against it when it fires
+  private handleActivity = () => {
+    this.lastActivity = Date.now();
+  };
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const timeout = settingsService.get().autoLockMinutes * 60 * 1000;
+    if (timeout === 0) return;
+    this.timer = setTimeout(
+      () => this.check(timeout),
+      Math.max(this.lastActivity + timeout - Date.now(), 1000)
+    );
+  }
+
+  private async check(timeout: number) {
+    this.timer = null;
+    if (Date.now() - this.lastActivity >= timeout) {
+      // The idle clock starts over, whether or not there was anything to lock
+      this.lastActivity = Date.now();
+      if (await dbService.isEncrypted()) dbService.lock();
+    }
+    this.schedule();
+  }
+}
+
+export const autoLock = new AutoLock();
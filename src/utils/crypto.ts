@@ -0,0 +1,141 @@
+// Encrypted JSON, stored in place of the fields it hides. Base64 rather
+// than bytes, so rows survive the JSON of a snapshot.
+interface Sealed {
+  iv: string;
+  data: string;
+}
+
+// Saved with the database so the passphrase can be checked and the key
+// derived again. `check` is a known value encrypted with the key.
+interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  check: Sealed;
+}
+
+// Thrown when encrypted data is read or written while the key is locked away
+class LockedError extends Error {
+  constructor(message = "Unlock the app to read your todos") {
+    super(message);
+    this.name = "LockedError";
+  }
+}
+
+const PBKDF2_ITERATIONS = 600000;
+const CHECK_VALUE = "offline-todos";
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // In chunks, as spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (
+  passphrase: string,
+  { salt, iterations }: Pick<EncryptionConfig, "salt" | "iterations">
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  // Not extractable, so the key never leaves WebCrypto
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const encrypt = async (key: CryptoKey, value: unknown): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async <T>(key: CryptoKey, sealed: Sealed): Promise<T> => {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// A fresh salt and key for a new passphrase
+const createEncryption = async (passphrase: string) => {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+  });
+  const config: EncryptionConfig = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await encrypt(key, CHECK_VALUE),
+  };
+  return { config, key };
+};
+
+// Derives the key for `passphrase`; rejects if it's the wrong one, which
+// AES-GCM reports by failing to decrypt the check value
+const unlockKey = async (passphrase: string, config: EncryptionConfig) => {
+  const key = await deriveKey(passphrase, config);
+  try {
+    if ((await decrypt(key, config.check)) === CHECK_VALUE) return key;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new Error("Wrong passphrase");
+};
+
+/**
+ * Moves `fields` of `value` into an encrypted `sealed` property. The other
+ * fields stay readable, e.g. for indexes. Without a key the value is
+ * returned as it is.
+ */
+const sealFields = async <T extends object>(
+  key: CryptoKey | null,
+  value: T,
+  fields: readonly string[]
+): Promise<T> => {
+  if (!key) return value;
+  const hidden: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (fields.includes(field)) {
+      hidden[field] = fieldValue;
+    } else {
+      rest[field] = fieldValue;
+    }
+  }
+  return { ...rest, sealed: await encrypt(key, hidden) } as T;
+};
+
+// Reverses sealFields; values that were never sealed pass through
+const openFields = async <T extends object>(
+  key: CryptoKey | null,
+  value: T
+): Promise<T> => {
+  const { sealed, ...rest } = value as T & { sealed?: Sealed };
+  if (!sealed) return value;
+  if (!key) throw new LockedError();
+  return { ...rest, ...(await decrypt<Partial<T>>(key, sealed)) } as T;
+};
+
+export { LockedError, createEncryption, unlockKey, sealFields, openFields };
+export type { Sealed, EncryptionConfig };
@@ -0,0 +1,203 @@
+import "fake-indexeddb/auto";
+import { deleteDB, openDB } from "idb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { dbService, DatabaseSnapshot, TodoItem } from "./database";
+import { DB_VERSION } from "./migrations";
+
+const DB_NAME = "offline-app-db";
+
+const todo = (clientId: string, title: string): TodoItem => ({
+  id: 1,
+  clientId,
+  title,
+  completed: false,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const snapshot: DatabaseSnapshot = {
+  version: DB_VERSION,
+  todos: [todo("from-snapshot", "From the snapshot")],
+  outbox: [],
+  conflicts: [],
+  lists: [],
+  meta: [],
+};
+
+// Every test starts from an empty database with no snapshots to recover from
+beforeEach(async () => {
+  await deleteDB(DB_NAME);
+  dbService.setRecoverySource({
+    latest: async () => null,
+    keep: async () => undefined,
+  });
+});
+
+describe("opening a damaged database", () => {
+  const keep = vi.fn(async () => undefined);
+
+  beforeEach(() => {
+    keep.mockClear();
+    dbService.setRecoverySource({
+      latest: async () => ({ snapshot, takenAt: 1000 }),
+      keep,
+    });
+  });
+
+  it("leaves a database it can't open alone", async () => {
+    // Left by a newer version of the app
+    const newer = await openDB(DB_NAME, DB_VERSION + 1, {
+      upgrade: (db) => {
+        db.createObjectStore("todos", { keyPath: "id", autoIncrement: true });
+      },
+    });
+    await newer.add("todos", todo("newer", "Kept"));
+    newer.close();
+
+    await expect(dbService.getAllTodos()).rejects.toMatchObject({
+      name: "VersionError",
+    });
+    expect(keep).not.toHaveBeenCalled();
+    const db = await openDB(DB_NAME);
+    expect(db.version).toBe(DB_VERSION + 1);
+    expect(await db.getAll("todos")).toHaveLength(1);
+    db.close();
+  });
+
+  it("keeps the readable rows before rebuilding from the snapshot", async () => {
+    // Every store, but none of the todo indexes
+    const damaged = await openDB(DB_NAME, DB_VERSION, {
+      upgrade: (db) => {
+        db.createObjectStore("todos", { keyPath: "id", autoIncrement: true });
+        db.createObjectStore("outbox", { keyPath: "id", autoIncrement: true });
+        db.createObjectStore("conflicts", { keyPath: "clientId" });
+        db.createObjectStore("lists", { keyPath: "id" });
+        db.createObjectStore("meta");
+      },
+    });
+    await damaged.add("todos", todo("unsynced", "Made after the snapshot"));
+    damaged.close();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const todos = await dbService.getAllTodos();
+
+    expect(keep).toHaveBeenCalledOnce();
+    const [kept] = keep.mock.calls[0] as unknown as [DatabaseSnapshot];
+    expect(kept.todos.map((row) => row.clientId)).toEqual(["unsynced"]);
+    expect(todos.map((row) => row.clientId)).toEqual(["from-snapshot"]);
+    expect(await dbService.getRecovery()).toMatchObject({
+      cause: "damaged",
+      takenAt: 1000,
+    });
+  });
+});
+
+describe("rejectOperation", () => {
+  it("removes a todo the server refused to create", async () => {
+    await dbService.addTodo({ title: "Refused", completed: false });
+    const [create] = await dbService.getPendingOperations();
+    // Queued while the create was on its way
+    await dbService.updateTodo(create.todoId, { title: "Refused, edited" });
+
+    const removed = await dbService.rejectOperation(
+      create,
+      "This list is read-only"
+    );
+
+    expect(removed).toBe(true);
+    expect(await dbService.getAllTodos()).toEqual([]);
+    expect(await dbService.getOutbox()).toEqual([]);
+  });
+
+  it("brings back a synced todo the server refused to delete", async () => {
+    await dbService.applyRemoteChanges([
+      {
+        serverId: "server-1",
+        clientId: "shared",
+        title: "Shared",
+        completed: false,
+        createdAt: 1,
+        updatedAt: 1,
+        serverVersion: 3,
+        syncedAt: 1,
+        deleted: false,
+      },
+    ]);
+    const [synced] = await dbService.getAllTodos();
+    await dbService.deleteTodo(synced.id!);
+    const [remove] = await dbService.getPendingOperations();
+
+    const removed = await dbService.rejectOperation(
+      remove,
+      "This list is read-only"
+    );
+
+    expect(removed).toBe(false);
+    expect(await dbService.getAllTodos()).toMatchObject([
+      {
+        id: synced.id,
+        clientId: "shared",
+        serverId: "server-1",
+        serverVersion: 3,
+        title: "Shared",
+        syncError: "This list is read-only",
+      },
+    ]);
+    expect(await dbService.getOutbox()).toEqual([]);
+  });
+});
+
+describe("failOperation", () => {
+  it("holds a refused change back until the todo is edited", async () => {
+    await dbService.addTodo({ title: "Too long", completed: false });
+    const [create] = await dbService.getPendingOperations();
+
+    await dbService.failOperation(create, "Title is too long", true);
+
+    expect(await dbService.getPendingOperations()).toEqual([]);
+    expect(
+      await dbService.getPendingOperations({ includeNeedsAction: true })
+    ).toMatchObject([{ clientId: create.clientId, attempts: 1 }]);
+    const [refused] = await dbService.getAllTodos();
+    expect(refused.syncError).toBe("Title is too long");
+
+    await dbService.updateTodo(create.todoId, { title: "Shorter" });
+    expect(await dbService.getPendingOperations()).toMatchObject([
+      { clientId: create.clientId, payload: { title: "Shorter" } },
+    ]);
+  });
+});
+
+describe("turning on encryption in another window", () => {
+  it("refuses writes sealed before this window heard of it", async () => {
+    await dbService.getAllTodos();
+    // Saved by the other window; this one has no key for it
+    const other = await openDB(DB_NAME);
+    await other.put(
+      "meta",
+      { salt: "other", iterations: 1, check: { iv: "", data: "" } },
+      "encryption"
+    );
+    other.close();
+
+    await expect(
+      dbService.applyRemoteChanges([
+        {
+          serverId: "server-1",
+          clientId: "remote",
+          title: "Client-confidential",
+          completed: false,
+          createdAt: 1,
+          updatedAt: 1,
+          serverVersion: 1,
+          syncedAt: 1,
+          deleted: false,
+        },
+      ])
+    ).rejects.toMatchObject({ name: "LockedError" });
+    expect(await dbService.isLocked()).toBe(true);
+    const db = await openDB(DB_NAME);
+    expect(await db.getAll("todos")).toEqual([]);
+    db.close();
+  });
+});
@@ -1,144 +1,1503 @@
-import { openDB, IDBPDatabase } from "idb";
+import { deleteDB, openDB, IDBPDatabase, IDBPTransaction } from "idb";
+import type { ListRole, Priority, Subtask } from "../../shared/api";
+import { DB_VERSION, runMigrations } from "./migrations";
+import { compactOperations } from "./outbox";
+import {
+  createEncryption,
+  EncryptionConfig,
+  LockedError,
+  openFields,
+  sealFields,
+  unlockKey,
+} from "./crypto";
 
 interface TodoItem {
   id?: number;
+  clientId: string; // Stable id generated locally, shared with the server
   serverId?: string;
+  listId?: string; // Shared list the todo belongs to; unset for personal
   title: string;
   completed: boolean;
+  dueAt?: number;
+  priority?: Priority;
+  notes?: string;
+  tags?: string[];
+  subtasks?: Subtask[];
   createdAt: number;
   updatedAt: number;
-  syncedAt?: number;
-  deleted?: boolean;
-  lastAction?: 'create' | 'update' | 'delete';
-  localOnly?: boolean; // Track if item exists only locally
-  serverDeleted?: boolean; // Track if item was deleted on server
+  syncedAt?: number; // When the server last confirmed this todo
   syncError?: string; // Track sync errors
+  serverVersion?: number; // Server version this row was last synced at
+  base?: TodoFields; // Field values as of the last sync, for 3-way merges
+  // Index keys derived on every write, since booleans and unset values
+  // can't be indexed. See withIndexKeys.
+  listKey?: string;
+  done?: 0 | 1;
+  dueKey?: number;
 }
 
+type OperationType = "create" | "update" | "delete";
+
+// A pending local change, replayed against the server in key order
+interface OutboxOperation {
+  id?: number;
+  clientId: string;
+  todoId: number;
+  serverId?: string;
+  type: OperationType;
+  payload: TodoFields & Pick<TodoItem, "listId" | "createdAt" | "updatedAt">;
+  // Server copy the change was made against, for conflict detection
+  baseVersion?: number;
+  base?: TodoFields;
+  attempts: number;
+  lastError?: string;
+  // The server refused it as invalid, so automatic syncs skip it until the
+  // todo is edited again or it is retried from diagnostics
+  needsAction?: boolean;
+  createdAt: number;
+}
+
+// Fields that the server merges individually on concurrent edits
+type TodoFields = Pick<
+  TodoItem,
+  "title" | "completed" | "dueAt" | "priority" | "notes" | "tags" | "subtasks"
+>;
+
+type ConflictField = {
+  field: keyof TodoFields;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+// An edit the server refused because someone else changed the same fields
+interface TodoConflict {
+  clientId: string;
+  todoId: number;
+  fields: ConflictField[];
+  remote: RemoteTodo;
+  detectedAt: number;
+}
+
+type ConflictResolution = "mine" | "theirs" | "merge";
+
+type TodoFilter = "all" | "active" | "completed";
+
+type TodoSort = "createdAt" | "updatedAt" | "dueAt";
+
+interface TodoQuery {
+  listId?: string; // Unset for personal todos
+  filter?: TodoFilter;
+  sort?: TodoSort;
+  direction?: "asc" | "desc";
+  limit?: number;
+  after?: IDBValidKey; // Cursor returned with the previous page
+}
+
+interface TodoPage {
+  todos: TodoItem[];
+  cursor: IDBValidKey | null; // Null on the last page
+}
+
+interface ListMember {
+  userId: string;
+  email?: string;
+  role: ListRole;
+}
+
+// A shared list the user belongs to, cached so permissions hold offline
+interface TodoList {
+  id: string;
+  name: string;
+  role: ListRole;
+  members: ListMember[];
+}
+
+// Shape of a todo as reported by the server's change feed or sync response
+type RemoteTodo = TodoFields &
+  Pick<TodoItem, "listId" | "createdAt" | "updatedAt" | "syncedAt"> & {
+  serverId: string;
+  clientId?: string;
+  serverVersion: number;
+  deleted: boolean;
+};
+
 declare module "idb" {
   interface DBSchema {
     todos: {
       key: number;
       value: TodoItem;
+      indexes: {
+        clientId: string;
+        serverId: string;
+        list_createdAt: [string, number, number];
+        list_updatedAt: [string, number, number];
+        list_dueAt: [string, number, number];
+        list_done_createdAt: [string, number, number, number];
+        list_done_updatedAt: [string, number, number, number];
+        list_done_dueAt: [string, number, number, number];
+      };
+    };
+    meta: {
+      key: string;
+      value: unknown;
+    };
+    conflicts: {
+      key: string;
+      value: TodoConflict;
+    };
+    outbox: {
+      key: number;
+      value: OutboxOperation;
+      indexes: { clientId: string };
+    };
+    lists: {
+      key: string;
+      value: TodoList;
     };
   }
 }
 
-function isDate(value: unknown): value is Date {
-  return value instanceof Date;
+const baseOf = (todo: TodoFields): TodoFields => ({
+  title: todo.title,
+  completed: todo.completed,
+  dueAt: todo.dueAt,
+  priority: todo.priority,
+  notes: todo.notes,
+  tags: todo.tags,
+  subtasks: todo.subtasks,
+  // An encrypted row's content is carried over still sealed
+  ...("sealed" in todo && { sealed: todo.sealed }),
+});
+
+const payloadOf = (todo: TodoItem): OutboxOperation["payload"] => ({
+  ...baseOf(todo),
+  listId: todo.listId,
+  createdAt: todo.createdAt,
+  updatedAt: todo.updatedAt,
+});
+
+// Sorts undated todos after every dated one
+const NO_DUE_DATE = Number.MAX_SAFE_INTEGER;
+
+const withIndexKeys = (todo: TodoItem): TodoItem => ({
+  ...todo,
+  listKey: todo.listId ?? "",
+  done: todo.completed ? 1 : 0,
+  dueKey: todo.dueAt ?? NO_DUE_DATE,
+});
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const operationFor = (
+  type: OperationType,
+  todo: TodoItem
+): OutboxOperation => ({
+  clientId: todo.clientId,
+  todoId: todo.id!,
+  serverId: todo.serverId,
+  type,
+  payload: payloadOf(todo),
+  baseVersion: todo.serverVersion,
+  base: todo.base,
+  attempts: 0,
+  createdAt: Date.now(),
+});
+
+// Todo fields encrypted at rest. Completion and due date stay readable, as
+// the list indexes filter and sort on them.
+const CONTENT_FIELDS = ["title", "priority", "notes", "tags", "subtasks"];
+
+// With a key, rows are stored with their content sealed (see crypto.ts);
+// without one they pass through. A sealed todo can still be copied into
+// its outbox operation or base, since the sealed blob travels along.
+const sealTodo = async (key: CryptoKey | null, todo: TodoItem) =>
+  key
+    ? {
+        ...(await sealFields(key, todo, CONTENT_FIELDS)),
+        base: todo.base && (await sealFields(key, todo.base, CONTENT_FIELDS)),
+      }
+    : todo;
+
+const openTodo = async (
+  key: CryptoKey | null,
+  todo: TodoItem
+): Promise<TodoItem> => ({
+  ...(await openFields(key, todo)),
+  base: todo.base && (await openFields(key, todo.base)),
+});
+
+const sealOperation = async (
+  key: CryptoKey | null,
+  operation: OutboxOperation
+) =>
+  key
+    ? {
+        ...operation,
+        payload: await sealFields(key, operation.payload, CONTENT_FIELDS),
+        base:
+          operation.base &&
+          (await sealFields(key, operation.base, CONTENT_FIELDS)),
+      }
+    : operation;
+
+const openOperation = async (
+  key: CryptoKey | null,
+  operation: OutboxOperation
+): Promise<OutboxOperation> => ({
+  ...operation,
+  payload: await openFields(key, operation.payload),
+  base: operation.base && (await openFields(key, operation.base)),
+});
+
+// The conflicting values are sealed with the conflict itself
+const sealConflict = async (key: CryptoKey | null, conflict: TodoConflict) =>
+  sealFields(
+    key,
+    { ...conflict, remote: await sealFields(key, conflict.remote, CONTENT_FIELDS) },
+    ["fields"]
+  );
+
+const openConflict = async (
+  key: CryptoKey | null,
+  conflict: TodoConflict
+): Promise<TodoConflict> => {
+  const opened = await openFields(key, conflict);
+  return { ...opened, remote: await openFields(key, opened.remote) };
+};
+
+// Stores a write can touch, as announced to change listeners.
+// "encryption" means the passphrase changed or encryption was turned on
+// or off.
+type ChangedStore =
+  | "todos"
+  | "outbox"
+  | "conflicts"
+  | "lists"
+  | "encryption"
+  | "session";
+
+interface DatabaseChange {
+  stores: ChangedStore[];
+  // Made by another window or tab
+  external: boolean;
+}
+
+// Every window and tab opens the same database; this channel tells the
+// others when it changes
+const CHANGE_CHANNEL = "offline-app-db-changes";
+const CHANGE_BATCH_DELAY = 50;
+
+const DB_NAME = "offline-app-db";
+// Meta key of the EncryptionConfig, set while encryption is on
+const ENCRYPTION_KEY = "encryption";
+const STORES = ["todos", "outbox", "conflicts", "lists", "meta"] as const;
+const TODO_INDEXES = [
+  "clientId",
+  "serverId",
+  "list_createdAt",
+  "list_updatedAt",
+  "list_dueAt",
+  "list_done_createdAt",
+  "list_done_updatedAt",
+  "list_done_dueAt",
+];
+
+// Every row of every store, e.g. to save a snapshot or restore one
+interface DatabaseSnapshot {
+  version: number; // Schema version the rows follow
+  todos: TodoItem[];
+  outbox: OutboxOperation[];
+  conflicts: TodoConflict[];
+  lists: TodoList[];
+  meta: [string, unknown][];
+}
+
+// Where the database is rebuilt from: the newest usable snapshot, and a
+// place to keep whatever a damaged database still holds before it goes
+interface RecoverySource {
+  latest(): Promise<{ snapshot: DatabaseSnapshot; takenAt: number } | null>;
+  keep(snapshot: DatabaseSnapshot): Promise<unknown>;
+}
+
+// How the database was rebuilt when it was opened
+interface DatabaseRecovery {
+  // Damaged: it couldn't be opened or failed its checks. Missing: it was
+  // gone, e.g. after the browser data was cleared.
+  cause: "damaged" | "missing";
+  takenAt: number; // When the snapshot it was rebuilt from was taken
 }
 
+// The database opened but lacks a store or index its version must have.
+// Unlike a failed open, which may be a passing problem, this won't mend.
+class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+// Cheap checks, run on every open, that each store and index is there and
+// can be read
+const checkIntegrity = async (db: IDBPDatabase) => {
+  for (const store of STORES) {
+    if (!db.objectStoreNames.contains(store)) {
+      throw new IntegrityError(`The ${store} store is missing`);
+    }
+  }
+  const tx = db.transaction([...STORES], "readonly");
+  const todos = tx.objectStore("todos");
+  for (const index of TODO_INDEXES) {
+    if (!todos.indexNames.contains(index)) {
+      throw new IntegrityError(`The ${index} index is missing`);
+    }
+  }
+  await Promise.all(STORES.map((store) => tx.objectStore(store).count()));
+  await tx.done;
+};
+
+// Copies what a damaged database still gives up, store by store; a store
+// that can't be read comes back empty
+const salvageRows = async (db: IDBPDatabase): Promise<DatabaseSnapshot> => {
+  const read = async <T>(store: string): Promise<T[]> => {
+    try {
+      return (await db.getAll(store)) as T[];
+    } catch {
+      return [];
+    }
+  };
+  const readMeta = async (): Promise<[string, unknown][]> => {
+    try {
+      const tx = db.transaction("meta", "readonly");
+      const [keys, values] = await Promise.all([
+        tx.store.getAllKeys(),
+        tx.store.getAll(),
+      ]);
+      return keys.map((key, index) => [key as string, values[index]]);
+    } catch {
+      return [];
+    }
+  };
+  return {
+    version: db.version,
+    todos: await read<TodoItem>("todos"),
+    outbox: await read<OutboxOperation>("outbox"),
+    conflicts: await read<TodoConflict>("conflicts"),
+    lists: await read<TodoList>("lists"),
+    meta: await readMeta(),
+  };
+};
+
 class DatabaseService {
   private db: IDBPDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private recoverySource: RecoverySource | null = null;
+  private recovery: DatabaseRecovery | null = null;
+  // Set while encryption is on; the key only while unlocked
+  private encryption: EncryptionConfig | null = null;
+  private key: CryptoKey | null = null;
+  private lockListeners = new Set<(locked: boolean) => void>();
+  private changeListeners = new Set<(change: DatabaseChange) => void>();
+  private changedStores = new Set<ChangedStore>();
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private channel =
+    typeof BroadcastChannel === "undefined"
+      ? null
+      : new BroadcastChannel(CHANGE_CHANNEL);
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<ChangedStore[]>) => {
+        if (event.data.includes("encryption") && this.db) {
+          this.loadEncryption(this.db);
+        }
+        this.emitChange({ stores: event.data, external: true });
+      };
+    }
+  }
+
+  // Concurrent callers share one open, so a rebuild only happens once
+  initDatabase() {
+    this.opening ??= this.open().finally(() => {
+      this.opening = null;
+    });
+    return this.opening;
+  }
+
+  /**
+   * Opens the database and checks it. One that is missing stores or
+   * indexes, or that has vanished since a snapshot was taken, is rebuilt
+   * from the latest snapshot. Any other failure to open, e.g. an aborted
+   * open or a database left by a newer version of the app, is passed on
+   * and nothing is deleted. Without a snapshot a damaged database is left
+   * alone too, so nothing more is lost.
+   */
+  private async open() {
+    let opened: { db: IDBPDatabase; created: boolean } | null = null;
+    try {
+      opened = await this.openDatabase();
+      await checkIntegrity(opened.db);
+    } catch (error) {
+      const source =
+        error instanceof IntegrityError && (await this.recoverySource?.latest());
+      if (!opened || !source) {
+        opened?.db.close();
+        throw error;
+      }
 
-  async initDatabase() {
-    this.db = await openDB("offline-app-db", 1, {
-      upgrade(db) {
-        const todoStore = db.createObjectStore("todos", {
-          keyPath: "id",
-          autoIncrement: true,
-        });
+      // Edits made after the snapshot may still be readable, so they are
+      // kept in a snapshot of their own before the database goes. If that
+      // fails, the database stays as it is.
+      console.error("Database is damaged, restoring the latest snapshot:", error);
+      try {
+        await this.recoverySource!.keep(await salvageRows(opened.db));
+      } finally {
+        opened.db.close();
+      }
+      await deleteDB(DB_NAME);
+      const { db } = await this.openDatabase();
+      await this.writeSnapshot(db, source.snapshot);
+      this.recovery = { cause: "damaged", takenAt: source.takenAt };
+      opened = { db, created: false };
+    }
+
+    if (opened.created) {
+      const source = await this.recoverySource?.latest();
+      if (source) {
+        console.warn("Database was missing, restoring the latest snapshot");
+        await this.writeSnapshot(opened.db, source.snapshot);
+        this.recovery = { cause: "missing", takenAt: source.takenAt };
+      }
+    }
+    await this.loadEncryption(opened.db);
+    this.db = opened.db;
+  }
+
+  private async openDatabase() {
+    let created = false;
+    const db = await openDB(DB_NAME, DB_VERSION, {
+      upgrade: (db, oldVersion, newVersion, transaction) => {
+        created = oldVersion === 0;
+        return runMigrations(
+          db,
+          oldVersion,
+          newVersion ?? DB_VERSION,
+          transaction
+        );
+      },
+      blocked: () => {
+        console.warn("Database upgrade waiting for another window to close");
+      },
+      // Let a newer version of the app upgrade instead of being blocked by
+      // us; the next call reopens at the new version
+      blocking: () => {
+        db.close();
+        if (this.db === db) this.db = null;
       },
     });
+    return { db, created };
   }
 
-  async addTodo(todo: Omit<TodoItem, "id">) {
+  setRecoverySource(source: RecoverySource) {
+    this.recoverySource = source;
+  }
+
+  // Set if the database had to be rebuilt from a snapshot when it was opened
+  async getRecovery() {
     if (!this.db) await this.initDatabase();
+    return this.recovery;
+  }
+
+  // Picks up the saved encryption settings. If they changed, e.g. in
+  // another window, the key held here no longer fits and is dropped.
+  private async loadEncryption(db: IDBPDatabase) {
+    this.useEncryption(
+      ((await db.get("meta", ENCRYPTION_KEY)) as EncryptionConfig | undefined) ??
+        null
+    );
+  }
+
+  private useEncryption(config: EncryptionConfig | null) {
+    if (config?.salt === this.encryption?.salt) return;
+    this.encryption = config;
+    this.key = null;
+    this.emitLockChange();
+  }
+
+  async isEncrypted() {
+    if (!this.db) await this.initDatabase();
+    return this.encryption !== null;
+  }
+
+  async isLocked() {
+    if (!this.db) await this.initDatabase();
+    return this.encryption !== null && this.key === null;
+  }
+
+  // Rejects with "Wrong passphrase" if it doesn't fit
+  async unlock(passphrase: string) {
+    if (!this.db) await this.initDatabase();
+    if (!this.encryption) return;
+    this.key = await unlockKey(passphrase, this.encryption);
+    this.emitLockChange();
+  }
+
+  // Forgets the key; encrypted todos can't be read until unlocked again
+  lock() {
+    if (!this.encryption || !this.key) return;
+    this.key = null;
+    this.emitLockChange();
+  }
+
+  // Returns a function that removes the listener
+  onLockChange(listener: (locked: boolean) => void) {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  private emitLockChange() {
+    const locked = this.encryption !== null && this.key === null;
+    this.lockListeners.forEach((listener) => listener(locked));
+  }
+
+  // Key to seal writes with; null while encryption is off
+  private writeKey() {
+    if (this.encryption && !this.key) throw new LockedError();
+    return this.key;
+  }
+
+  // Rows are sealed before their transaction opens, and another window may
+  // turn encryption on or change the passphrase before this one hears of
+  // it. Checked first in the transaction, which must include "meta": rows
+  // sealed with a key the saved settings no longer match are refused, and
+  // the new settings are picked up, locking this window.
+  private async checkWriteKey(
+    tx: IDBPTransaction<unknown, string[], "readwrite">,
+    key: CryptoKey | null
+  ) {
+    const config =
+      ((await tx.objectStore("meta").get(ENCRYPTION_KEY)) as
+        | EncryptionConfig
+        | undefined) ?? null;
+    const current = config
+      ? key !== null && key === this.key && config.salt === this.encryption?.salt
+      : key === null;
+    if (current) return;
+    this.useEncryption(config);
+    throw new LockedError();
+  }
+
+  /**
+   * Turns encryption on (without a current passphrase), changes the
+   * passphrase, or turns encryption off (without a next one). Every todo,
+   * queued change and conflict is encrypted again under the new key.
+   * Other windows are locked, since their key no longer fits, and writes
+   * they sealed before hearing of it are refused (see checkWriteKey).
+   */
+  async changePassphrase(current: string | null, next: string | null) {
+    if (!this.db) await this.initDatabase();
+    if (this.encryption && current === null) {
+      throw new Error("Enter the current passphrase");
+    }
+    const from =
+      this.encryption && current !== null
+        ? await unlockKey(current, this.encryption)
+        : null;
+    const created = next !== null ? await createEncryption(next) : null;
+    const to = created?.key ?? null;
+
+    // Rows are encrypted between two transactions, since one would commit
+    // while WebCrypto is awaited. If anything changed in between, start over.
+    for (;;) {
+      const read = this.db!.transaction(["todos", "outbox", "conflicts"]);
+      const before = {
+        todos: await read.objectStore("todos").getAll(),
+        outbox: await read.objectStore("outbox").getAll(),
+        conflicts: await read.objectStore("conflicts").getAll(),
+      };
+      const rows = await this.resealRows(before, from, to);
+
+      const tx = this.db!.transaction(
+        ["todos", "outbox", "conflicts", "meta"],
+        "readwrite"
+      );
+      const current = {
+        todos: await tx.objectStore("todos").getAll(),
+        outbox: await tx.objectStore("outbox").getAll(),
+        conflicts: await tx.objectStore("conflicts").getAll(),
+      };
+      if (JSON.stringify(current) !== JSON.stringify(before)) {
+        await tx.done;
+        continue;
+      }
+      for (const todo of rows.todos) await tx.objectStore("todos").put(todo);
+      for (const operation of rows.outbox) {
+        await tx.objectStore("outbox").put(operation);
+      }
+      for (const conflict of rows.conflicts) {
+        await tx.objectStore("conflicts").put(conflict);
+      }
+      if (created) {
+        await tx.objectStore("meta").put(created.config, ENCRYPTION_KEY);
+      } else {
+        await tx.objectStore("meta").delete(ENCRYPTION_KEY);
+      }
+      await tx.done;
+      break;
+    }
+
+    this.encryption = created?.config ?? null;
+    this.key = to;
+    this.emitLockChange();
+    this.notifyChange("todos", "outbox", "conflicts", "encryption");
+  }
+
+  // For a forgotten passphrase: without it nothing encrypted can be read,
+  // so every store is erased and encryption turned off
+  async eraseEncryptedData() {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction([...STORES], "readwrite");
+    for (const store of STORES) await tx.objectStore(store).clear();
+    await tx.done;
+    this.encryption = null;
+    this.key = null;
+    this.emitLockChange();
+    this.notifyChange("todos", "outbox", "conflicts", "lists", "encryption");
+  }
+
+  // Decrypts rows with one key and encrypts them with another; either key
+  // may be null for plaintext
+  private async resealRows(
+    rows: Pick<DatabaseSnapshot, "todos" | "outbox" | "conflicts">,
+    from: CryptoKey | null,
+    to: CryptoKey | null
+  ) {
+    return {
+      todos: await Promise.all(
+        rows.todos.map(async (todo) => sealTodo(to, await openTodo(from, todo)))
+      ),
+      outbox: await Promise.all(
+        rows.outbox.map(async (operation) =>
+          sealOperation(to, await openOperation(from, operation))
+        )
+      ),
+      conflicts: await Promise.all(
+        rows.conflicts.map(async (conflict) =>
+          sealConflict(to, await openConflict(from, conflict))
+        )
+      ),
+    };
+  }
+
+  // Called after writes made here or in another window or tab, e.g. to
+  // refresh a view or the tray's pending count. Returns a function that
+  // removes the listener.
+  onChange(listener: (change: DatabaseChange) => void) {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // Writes close together, such as a sync batch, are announced once
+  private notifyChange(...stores: ChangedStore[]) {
+    stores.forEach((store) => this.changedStores.add(store));
+    this.changeTimer ??= setTimeout(() => {
+      const changed = [...this.changedStores];
+      this.changedStores.clear();
+      this.changeTimer = null;
+      this.channel?.postMessage(changed);
+      this.emitChange({ stores: changed, external: false });
+    }, CHANGE_BATCH_DELAY);
+  }
+
+  private emitChange(change: DatabaseChange) {
+    this.changeListeners.forEach((listener) => listener(change));
+  }
+
+  // Viewers can't change a list's todos, online or off
+  private async assertWritable(listId?: string) {
+    if (!listId) return;
+    const list = await this.db!.get("lists", listId);
+    if (!list) throw new Error("List not found");
+    if (list.role === "viewer") throw new Error("This list is read-only");
+  }
+
+  // Every local edit writes the row and appends its outbox operation in the
+  // same transaction, so a change is never saved without being queued
+  async addTodo(todo: Pick<TodoItem, keyof TodoFields | "listId">) {
+    if (!this.db) await this.initDatabase();
+    await this.assertWritable(todo.listId);
     const timestamp = Date.now();
-    return this.db!.add("todos", {
+    const newTodo: TodoItem = {
       ...todo,
+      clientId: crypto.randomUUID(),
       createdAt: timestamp,
       updatedAt: timestamp,
-      syncedAt: undefined,
-      deleted: false,
-      lastAction: 'create' as const,
-      localOnly: true
-    });
+    };
+    // Sealed first: a transaction commits while WebCrypto is awaited
+    const key = this.writeKey();
+    const row = await sealTodo(key, withIndexKeys(newTodo));
+    const tx = this.db!.transaction(["todos", "outbox", "meta"], "readwrite");
+    await this.checkWriteKey(tx, key);
+    newTodo.id = (await tx.objectStore("todos").add(row)) as number;
+    await tx
+      .objectStore("outbox")
+      .add(operationFor("create", { ...row, id: newTodo.id }));
+    await tx.done;
+    this.notifyChange("todos", "outbox");
+    return newTodo.id;
   }
 
-  async getAllTodos(includeDeleted = false) {
+  async getAllTodos() {
     if (!this.db) await this.initDatabase();
     const todos = await this.db!.getAll("todos");
-    return includeDeleted ? todos : todos.filter(todo => !todo.deleted);
+    return Promise.all(todos.map((todo) => openTodo(this.key, todo)));
   }
 
-  async getUnsyncedTodos() {
+  async getTodo(id: number) {
     if (!this.db) await this.initDatabase();
-    const allTodos = await this.db!.getAll("todos");
-    const unsyncedTodos = allTodos.filter(
-      (todo) => todo.syncedAt === undefined || 
-                (todo.deleted && todo.lastAction === 'delete') ||
-                (todo.lastAction === 'update' && todo.updatedAt > (todo.syncedAt || 0))
+    const todo = await this.db!.get("todos", id);
+    return todo && openTodo(this.key, todo);
+  }
+
+  /**
+   * Reads one page of a list's todos through the index matching the filter
+   * and sort. Pass the returned cursor as `after` to read the next page.
+   */
+  async queryTodos({
+    listId,
+    filter = "all",
+    sort = "createdAt",
+    direction = "desc",
+    limit = DEFAULT_PAGE_SIZE,
+    after,
+  }: TodoQuery = {}): Promise<TodoPage> {
+    if (!this.db) await this.initDatabase();
+    const prefix: IDBValidKey[] =
+      filter === "all"
+        ? [listId ?? ""]
+        : [listId ?? "", filter === "completed" ? 1 : 0];
+    const indexName = `${filter === "all" ? "list" : "list_done"}_${sort}`;
+
+    // Arrays sort after numbers, so [...prefix, []] bounds every key with
+    // that prefix
+    const lower = direction === "asc" && after ? after : prefix;
+    const upper = direction === "desc" && after ? after : [...prefix, []];
+    const range = IDBKeyRange.bound(
+      lower,
+      upper,
+      direction === "asc" && !!after,
+      direction === "desc" && !!after
     );
-    console.log("Unsynced todos found:", unsyncedTodos.length);
-    return unsyncedTodos;
+
+    const todos: TodoItem[] = [];
+    let lastKey: IDBValidKey | null = null;
+    let cursor = await this.db!.transaction("todos")
+      .store.index(indexName)
+      .openCursor(range, direction === "asc" ? "next" : "prev");
+    while (cursor && todos.length < limit) {
+      todos.push(cursor.value);
+      lastKey = cursor.key;
+      cursor = await cursor.continue();
+    }
+
+    return {
+      todos: await Promise.all(todos.map((todo) => openTodo(this.key, todo))),
+      cursor: cursor ? lastKey : null,
+    };
   }
 
-  async updateTodo(id: number, updates: Partial<TodoItem>) {
+  async updateTodo(id: number, updates: Partial<TodoFields>) {
     if (!this.db) await this.initDatabase();
-    const todo = await this.db!.get("todos", id);
+    // The update is sealed outside the transaction, which would commit
+    // while WebCrypto is awaited, and starts over if the row changed
+    // meanwhile
+    for (;;) {
+      const current = await this.db!.get("todos", id);
+      if (!current) throw new Error("Todo not found");
+      await this.assertWritable(current.listId);
+
+      const key = this.writeKey();
+      const updatedTodo: TodoItem = {
+        ...(await openTodo(key, current)),
+        ...updates,
+        updatedAt: Date.now(),
+      };
+      const [row, operation] = await Promise.all([
+        sealTodo(key, withIndexKeys(updatedTodo)),
+        sealOperation(key, operationFor("update", updatedTodo)),
+      ]);
+
+      const tx = this.db!.transaction(["todos", "outbox", "meta"], "readwrite");
+      await this.checkWriteKey(tx, key);
+      const todo = await tx.objectStore("todos").get(id);
+      if (JSON.stringify(todo) !== JSON.stringify(current)) {
+        await tx.done;
+        continue;
+      }
+      await tx.objectStore("todos").put(row);
+      await tx.objectStore("outbox").add(operation);
+      await tx.done;
+      break;
+    }
+    this.notifyChange("todos", "outbox");
+  }
+
+  async deleteTodo(id: number) {
+    if (!this.db) await this.initDatabase();
+    const current = await this.db!.get("todos", id);
+    await this.assertWritable(current?.listId);
+    const tx = this.db!.transaction(["todos", "outbox"], "readwrite");
+    const todo = await tx.objectStore("todos").get(id);
     if (!todo) throw new Error("Todo not found");
 
-    const updatedTodo = {
-      ...todo,
-      ...updates,
-      id: todo.id,
-      serverId: updates.serverId || todo.serverId,
-      updatedAt: Date.now(),
-      lastAction: updates.lastAction || 'update' as const,
-      createdAt: isDate(updates.createdAt)
-        ? updates.createdAt.getTime()
-        : updates.createdAt || todo.createdAt,
-      syncedAt: updates.syncedAt
-        ? new Date(updates.syncedAt).getTime()
-        : todo.syncedAt,
-    };
+    // The row goes away now; the queued operation carries the delete
+    await tx.objectStore("todos").delete(id);
+    await tx.objectStore("outbox").add(
+      operationFor("delete", { ...todo, updatedAt: Date.now() })
+    );
+    await tx.done;
+    this.notifyChange("todos", "outbox");
+  }
+
+  /**
+   * Compacts the outbox and returns the operations ready to be replayed, in
+   * order. Operations on todos with an open conflict are held back until the
+   * user resolves it, and ones needing action unless `includeNeedsAction`.
+   */
+  async getPendingOperations({ includeNeedsAction = false } = {}) {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(["outbox", "conflicts"], "readwrite");
+    const outbox = tx.objectStore("outbox");
+    const { operations, removedIds } = compactOperations(await outbox.getAll());
+
+    for (const id of removedIds) await outbox.delete(id);
+    for (const operation of operations) await outbox.put(operation);
 
-    return this.db!.put("todos", updatedTodo);
+    const conflicted = new Set(await tx.objectStore("conflicts").getAllKeys());
+    await tx.done;
+
+    const pending = operations.filter(
+      (op) =>
+        !conflicted.has(op.clientId) && (includeNeedsAction || !op.needsAction)
+    );
+    console.log("Pending operations found:", pending.length);
+    return Promise.all(pending.map((op) => openOperation(this.key, op)));
   }
 
-  async markTodoDeleted(id: number, isDeleted: boolean) {
-    return this.updateTodo(id, {
-      deleted: isDeleted,
-      lastAction: isDeleted ? 'delete' as const : undefined,
-      syncedAt: isDeleted ? undefined : Date.now(),
-      serverDeleted: isDeleted
-    });
+  // Every queued operation as stored, without compacting or holding back
+  // conflicted ones, e.g. for the diagnostics panel
+  async getOutbox() {
+    if (!this.db) await this.initDatabase();
+    const operations = await this.db!.getAll("outbox");
+    return Promise.all(operations.map((op) => openOperation(this.key, op)));
   }
 
-  async deleteTodo(id: number) {
-    return this.markTodoDeleted(id, true);
+  // Client ids of todos with changes the server hasn't confirmed yet
+  async getPendingClientIds() {
+    if (!this.db) await this.initDatabase();
+    const operations = await this.db!.getAll("outbox");
+    return new Set(operations.map((op) => op.clientId));
   }
 
-  async permanentlyDeleteTodo(id: number) {
+  // Acknowledges an operation the server applied
+  async completeOperation(operation: OutboxOperation, remote: RemoteTodo) {
     if (!this.db) await this.initDatabase();
-    return this.db!.delete("todos", id);
+    const key = this.writeKey();
+    const [remoteRow, remoteBase] = await Promise.all([
+      sealFields(key, remote, CONTENT_FIELDS),
+      sealFields(key, baseOf(remote), CONTENT_FIELDS),
+    ]);
+    const tx = this.db!.transaction(["todos", "outbox", "meta"], "readwrite");
+    await this.checkWriteKey(tx, key);
+    const todos = tx.objectStore("todos");
+    const outbox = tx.objectStore("outbox");
+    await outbox.delete(operation.id!);
+
+    // Edits queued while this one was in flight were made against our own
+    // write, so rebase them onto the version the server just returned
+    const later = await outbox.index("clientId").getAll(operation.clientId);
+    for (const op of later) {
+      await outbox.put({
+        ...op,
+        serverId: remote.serverId,
+        baseVersion: remote.serverVersion,
+        base: remoteBase,
+      });
+    }
+
+    const todo = await todos.get(operation.todoId);
+    if (todo && remote.deleted) {
+      await todos.delete(todo.id!);
+    } else if (todo) {
+      await todos.put(
+        withIndexKeys({
+          ...todo,
+          // Local values stay authoritative while more edits are queued
+          ...(later.length === 0 && remoteRow),
+          clientId: todo.clientId,
+          serverId: remote.serverId,
+          serverVersion: remote.serverVersion,
+          syncedAt: remote.syncedAt,
+          base: remoteBase,
+          syncError: undefined,
+        })
+      );
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox");
   }
 
-  async markTodoSynced(id: number) {
-    return this.updateTodo(id, { 
-      syncedAt: Date.now(),
-      lastAction: undefined,
-      localOnly: false,
-      syncError: undefined
+  // Records a failed attempt. The operation stays queued for the next sync,
+  // or with `needsAction` until the todo is edited or retried by hand.
+  async failOperation(
+    operation: OutboxOperation,
+    error: string,
+    needsAction = false
+  ) {
+    if (!this.db) await this.initDatabase();
+    const key = this.writeKey();
+    const row = await sealOperation(key, {
+      ...operation,
+      attempts: operation.attempts + 1,
+      lastError: error,
+      needsAction,
     });
+    const tx = this.db!.transaction(["todos", "outbox", "meta"], "readwrite");
+    await this.checkWriteKey(tx, key);
+    await tx.objectStore("outbox").put(row);
+    const todo = await tx.objectStore("todos").get(operation.todoId);
+    if (todo) {
+      await tx.objectStore("todos").put({ ...todo, syncError: error });
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox");
   }
 
-  async cleanupDeletedTodos() {
+  // The server has no such todo, e.g. it was purged. A queued delete is
+  // simply done; any other change is queued again as a create so the local
+  // copy isn't lost.
+  async resolveMissingOperation(operation: OutboxOperation) {
     if (!this.db) await this.initDatabase();
-    const todos = await this.db!.getAll("todos");
-    const deletedAndSynced = todos.filter(todo => 
-      todo.deleted && 
-      todo.serverDeleted && 
-      todo.syncedAt && 
-      !todo.syncError
+    const tx = this.db!.transaction(["todos", "outbox"], "readwrite");
+    const outbox = tx.objectStore("outbox");
+    await outbox.delete(operation.id!);
+
+    const todo =
+      operation.type !== "delete" &&
+      (await tx.objectStore("todos").get(operation.todoId));
+    if (todo) {
+      const orphan: TodoItem = {
+        ...todo,
+        serverId: undefined,
+        serverVersion: undefined,
+        syncedAt: undefined,
+        base: undefined,
+        syncError: undefined,
+      };
+      await tx.objectStore("todos").put(withIndexKeys(orphan));
+      // The create carries the latest values, so queued edits are folded in
+      const later = await outbox.index("clientId").getAllKeys(todo.clientId);
+      for (const id of later) await outbox.delete(id);
+      await outbox.add(operationFor("create", orphan));
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox");
+  }
+
+  // The server refused the operation outright, e.g. a write to a list the
+  // user may not change. Retrying won't help, so the operation is dropped
+  // and the todo goes back to its last synced values, which brings back a
+  // todo deleted here. A todo the server never had has none, so it goes
+  // too; returns whether it did.
+  async rejectOperation(operation: OutboxOperation, error: string) {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(["todos", "outbox"], "readwrite");
+    const outbox = tx.objectStore("outbox");
+    // As stored, so sealed content is copied back sealed
+    const stored = await outbox.get(operation.id!);
+    await outbox.delete(operation.id!);
+    const todo = await tx.objectStore("todos").get(operation.todoId);
+    const removed = !!todo && !todo.serverId;
+    if (todo && !todo.serverId) {
+      await tx.objectStore("todos").delete(todo.id!);
+      // Edits queued after the create would only recreate it
+      const later = await outbox.index("clientId").getAllKeys(todo.clientId);
+      for (const id of later) await outbox.delete(id);
+    } else if (todo) {
+      await tx.objectStore("todos").put(
+        withIndexKeys({
+          ...todo,
+          ...todo.base,
+          syncError: error,
+        })
+      );
+    } else if (stored?.type === "delete" && stored.serverId && stored.base) {
+      // The row went with the delete, but the server still has the todo
+      await tx.objectStore("todos").put(
+        withIndexKeys({
+          id: stored.todoId,
+          clientId: stored.clientId,
+          serverId: stored.serverId,
+          ...stored.payload,
+          ...stored.base,
+          serverVersion: stored.baseVersion,
+          base: stored.base,
+          syncError: error,
+        })
+      );
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox");
+    return removed;
+  }
+
+  /**
+   * Throws away a todo's unsent changes. A todo the server never had goes
+   * away; any other goes back to its last synced values, which brings back
+   * a todo deleted here.
+   */
+  async discardChanges(clientId: string) {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(["todos", "outbox"], "readwrite");
+    const todos = tx.objectStore("todos");
+    const outbox = tx.objectStore("outbox");
+    const operations = await outbox.index("clientId").getAll(clientId);
+    for (const operation of operations) await outbox.delete(operation.id!);
+
+    const todo = await todos.index("clientId").get(clientId);
+    if (todo && !todo.serverId) {
+      await todos.delete(todo.id!);
+    } else if (todo) {
+      // Rows are copied as stored; a sealed base replaces the sealed content
+      await todos.put(
+        withIndexKeys({ ...todo, ...todo.base, syncError: undefined })
+      );
+    } else {
+      const deleted = operations.find(
+        (op) => op.type === "delete" && op.serverId && op.base
+      );
+      if (deleted) {
+        await todos.put(
+          withIndexKeys({
+            id: deleted.todoId,
+            clientId,
+            serverId: deleted.serverId,
+            ...deleted.payload,
+            ...deleted.base!,
+            serverVersion: deleted.baseVersion,
+            base: deleted.base,
+          })
+        );
+      }
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox");
+  }
+
+  async getLists() {
+    if (!this.db) await this.initDatabase();
+    return this.db!.getAll("lists");
+  }
+
+  /**
+   * Replaces the cached lists with the server's. Todos in lists the user no
+   * longer belongs to are removed along with their queued changes. Returns
+   * true when a list was added, since its existing todos predate the pull
+   * cursor.
+   */
+  async saveLists(lists: TodoList[]) {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(
+      ["lists", "todos", "outbox", "conflicts"],
+      "readwrite"
     );
-    
-    for (const todo of deletedAndSynced) {
-      await this.permanentlyDeleteTodo(todo.id!);
+    const listStore = tx.objectStore("lists");
+    const previous = new Set((await listStore.getAllKeys()) as string[]);
+    const current = new Set(lists.map((list) => list.id));
+
+    await listStore.clear();
+    for (const list of lists) await listStore.put(list);
+
+    const isGone = (listId?: string) => listId && !current.has(listId);
+    const byList = tx.objectStore("todos").index("list_createdAt");
+    for (const listId of previous) {
+      if (!isGone(listId)) continue;
+      const range = IDBKeyRange.bound([listId], [listId, []]);
+      let cursor = await byList.openCursor(range);
+      while (cursor) {
+        await tx.objectStore("conflicts").delete(cursor.value.clientId);
+        await cursor.delete();
+        cursor = await cursor.continue();
+      }
     }
+    for (const op of await tx.objectStore("outbox").getAll()) {
+      if (isGone(op.payload.listId)) await tx.objectStore("outbox").delete(op.id!);
+    }
+    await tx.done;
+    this.notifyChange("lists", "todos", "conflicts", "outbox");
+
+    return lists.some((list) => !previous.has(list.id));
+  }
+
+  // Applies changes pulled from the server. Todos with queued local changes
+  // are left alone so the next push is not overwritten by an older copy.
+  async applyRemoteChanges(changes: RemoteTodo[]) {
+    if (!this.db) await this.initDatabase();
+    const key = this.writeKey();
+    const sealed = await Promise.all(
+      changes.map(async ({ deleted, ...remote }) => ({
+        deleted,
+        remote,
+        row: await sealFields(key, remote, CONTENT_FIELDS),
+        base: await sealFields(key, baseOf(remote), CONTENT_FIELDS),
+      }))
+    );
+    const tx = this.db!.transaction(
+      ["todos", "conflicts", "outbox", "meta"],
+      "readwrite"
+    );
+    await this.checkWriteKey(tx, key);
+    const todos = tx.objectStore("todos");
+    const conflictStore = tx.objectStore("conflicts");
+    const pending = new Set(
+      (await tx.objectStore("outbox").getAll()).map((op) => op.clientId)
+    );
+
+    let applied = 0;
+    for (const { deleted, remote, row, base } of sealed) {
+      const local =
+        (remote.clientId &&
+          (await todos.index("clientId").get(remote.clientId))) ||
+        (await todos.index("serverId").get(remote.serverId));
+      const clientId = local?.clientId ?? remote.clientId;
+
+      const conflict = clientId && (await conflictStore.get(clientId));
+      if (conflict) {
+        // Keep an open conflict pointed at the newest server copy
+        await conflictStore.put({ ...conflict, remote: { ...row, deleted } });
+        continue;
+      }
+      if (clientId && pending.has(clientId)) continue;
+
+      if (local && deleted) {
+        await todos.delete(local.id!);
+      } else if (local) {
+        await todos.put(
+          withIndexKeys({
+            ...local,
+            ...row,
+            clientId: local.clientId,
+            base,
+            syncError: undefined,
+          })
+        );
+      } else if (!deleted) {
+        await todos.add(
+          withIndexKeys({
+            ...row,
+            clientId: remote.clientId ?? crypto.randomUUID(),
+            base,
+          })
+        );
+      } else {
+        continue;
+      }
+      applied++;
+    }
+
+    await tx.done;
+    if (applied > 0) this.notifyChange("todos");
+    return applied;
+  }
+
+  // After a full resync: drops synced todos the server no longer has, since
+  // their tombstones may have been purged. Todos with unsent changes or an
+  // open conflict are kept.
+  async removeTodosNotOnServer(serverIds: Set<string>) {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(
+      ["todos", "outbox", "conflicts"],
+      "readwrite"
+    );
+    const pending = new Set(
+      (await tx.objectStore("outbox").getAll()).map((op) => op.clientId)
+    );
+    const conflicted = new Set(
+      await tx.objectStore("conflicts").getAllKeys()
+    );
+
+    let removed = 0;
+    let cursor = await tx.objectStore("todos").openCursor();
+    while (cursor) {
+      const { serverId, clientId } = cursor.value;
+      if (
+        serverId &&
+        !serverIds.has(serverId) &&
+        !pending.has(clientId) &&
+        !conflicted.has(clientId)
+      ) {
+        await cursor.delete();
+        removed++;
+      }
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+    if (removed > 0) this.notifyChange("todos");
+    return removed;
+  }
+
+  // Stores a conflict reported by the server. The refused operation is
+  // dropped; the conflict itself now holds the edit until it is resolved.
+  async saveConflict(conflict: TodoConflict, operation: OutboxOperation) {
+    if (!this.db) await this.initDatabase();
+    const key = this.writeKey();
+    const row = await sealConflict(key, conflict);
+    const tx = this.db!.transaction(
+      ["todos", "conflicts", "outbox", "meta"],
+      "readwrite"
+    );
+    await this.checkWriteKey(tx, key);
+    await tx.objectStore("conflicts").put(row);
+    await tx.objectStore("outbox").delete(operation.id!);
+    const todo = await tx.objectStore("todos").get(conflict.todoId);
+    if (todo) {
+      await tx.objectStore("todos").put({
+        ...todo,
+        syncError: "Edited elsewhere, needs resolving",
+      });
+    }
+    await tx.done;
+    this.notifyChange("todos", "conflicts", "outbox");
+  }
+
+  async getConflicts() {
+    if (!this.db) await this.initDatabase();
+    const conflicts = await this.db!.getAll("conflicts");
+    return Promise.all(
+      conflicts.map((conflict) => openConflict(this.key, conflict))
+    );
+  }
+
+  // Readable while locked, unlike the conflicts themselves
+  async countConflicts() {
+    if (!this.db) await this.initDatabase();
+    return this.db!.count("conflicts");
+  }
+
+  /**
+   * Settles a conflict. "theirs" adopts the server copy; "mine" and "merge"
+   * rebase the local edit onto the server version (using `values` for a
+   * merge) so the next push is accepted.
+   */
+  async resolveConflict(
+    clientId: string,
+    resolution: ConflictResolution,
+    values?: Partial<TodoFields>
+  ) {
+    if (!this.db) await this.initDatabase();
+    const key = this.writeKey();
+    const stored = await this.db!.get("conflicts", clientId);
+    if (!stored) throw new Error("Conflict not found");
+    const conflict = await openConflict(key, stored);
+    const row = await this.db!.get("todos", conflict.todoId);
+    if (!row) throw new Error("Todo not found");
+    const todo = await openTodo(key, row);
+
+    // Sealed before the transaction, which would commit while WebCrypto is
+    // awaited
+    const { deleted, ...remote } = conflict.remote;
+    let resolved: TodoItem | null = null;
+    let operation: OutboxOperation | null = null;
+    if (resolution === "theirs" && !deleted) {
+      resolved = await sealTodo(
+        key,
+        withIndexKeys({
+          ...todo,
+          ...remote,
+          clientId: todo.clientId,
+          base: baseOf(remote),
+          syncError: undefined,
+        })
+      );
+    } else if (resolution !== "theirs") {
+      const merged: TodoItem = {
+        ...todo,
+        ...(resolution === "merge" ? values : {}),
+        serverId: remote.serverId,
+        serverVersion: remote.serverVersion,
+        base: baseOf(remote),
+        updatedAt: Date.now(),
+        syncError: undefined,
+      };
+      resolved = await sealTodo(key, withIndexKeys(merged));
+      operation = await sealOperation(key, operationFor("update", merged));
+    }
+
+    const tx = this.db!.transaction(
+      ["todos", "conflicts", "outbox", "meta"],
+      "readwrite"
+    );
+    await this.checkWriteKey(tx, key);
+    const todos = tx.objectStore("todos");
+    const outbox = tx.objectStore("outbox");
+
+    // Anything queued for this todo was made against the stale copy
+    const stale = await outbox.index("clientId").getAllKeys(clientId);
+    for (const id of stale) await outbox.delete(id);
+
+    if (resolved) {
+      await todos.put(resolved);
+    } else {
+      await todos.delete(todo.id!);
+    }
+    if (operation) await outbox.add(operation);
+
+    await tx.objectStore("conflicts").delete(clientId);
+    await tx.done;
+    this.notifyChange("todos", "conflicts", "outbox");
+  }
+
+  // Wipes every store, e.g. before another user signs in
+  async clearLocalData() {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction([...STORES], "readwrite");
+    // Encryption is a choice made for this device, not for the account
+    const encryption = await tx.objectStore("meta").get(ENCRYPTION_KEY);
+    for (const store of STORES) await tx.objectStore(store).clear();
+    if (encryption) {
+      await tx.objectStore("meta").put(encryption, ENCRYPTION_KEY);
+    }
+    await tx.done;
+    this.notifyChange("todos", "outbox", "conflicts", "lists");
+  }
+
+  // Drops the todos and everything queued for them, e.g. before pulling a
+  // fresh copy from the server; the session, lists and settings stay
+  async clearTodoData() {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction(
+      ["todos", "outbox", "conflicts"],
+      "readwrite"
+    );
+    await Promise.all([
+      tx.objectStore("todos").clear(),
+      tx.objectStore("outbox").clear(),
+      tx.objectStore("conflicts").clear(),
+      tx.done,
+    ]);
+    this.notifyChange("todos", "outbox", "conflicts");
+  }
+
+  // Reads every store in one transaction, so the copy is consistent
+  async exportSnapshot(): Promise<DatabaseSnapshot> {
+    if (!this.db) await this.initDatabase();
+    const tx = this.db!.transaction([...STORES], "readonly");
+    const [todos, outbox, conflicts, lists, metaKeys, metaValues] =
+      await Promise.all([
+        tx.objectStore("todos").getAll(),
+        tx.objectStore("outbox").getAll(),
+        tx.objectStore("conflicts").getAll(),
+        tx.objectStore("lists").getAll(),
+        tx.objectStore("meta").getAllKeys(),
+        tx.objectStore("meta").getAll(),
+      ]);
+    await tx.done;
+    return {
+      version: DB_VERSION,
+      todos,
+      outbox,
+      conflicts,
+      lists,
+      meta: metaKeys.map((key, index) => [key as string, metaValues[index]]),
+    };
+  }
+
+  // Replaces every store with the snapshot's rows, pending operations
+  // included. The snapshot must be at the current schema version and under
+  // the current passphrase, or from before encryption was turned on.
+  async restoreSnapshot(snapshot: DatabaseSnapshot) {
+    if (!this.db) await this.initDatabase();
+    const meta = new Map(snapshot.meta);
+    const config = meta.get(ENCRYPTION_KEY) as EncryptionConfig | undefined;
+    if (config?.salt !== this.encryption?.salt) {
+      if (config || !this.key) {
+        throw new Error("This snapshot was encrypted with a different passphrase");
+      }
+      meta.set(ENCRYPTION_KEY, this.encryption);
+      snapshot = {
+        ...snapshot,
+        ...(await this.resealRows(snapshot, null, this.key)),
+        meta: [...meta],
+      };
+    }
+    await this.writeSnapshot(this.db!, snapshot);
+    this.notifyChange("todos", "outbox", "conflicts", "lists");
+  }
+
+  private async writeSnapshot(db: IDBPDatabase, snapshot: DatabaseSnapshot) {
+    if (snapshot.version !== DB_VERSION) {
+      throw new Error(
+        `Snapshot is at version ${snapshot.version}, the database at ${DB_VERSION}`
+      );
+    }
+    const tx = db.transaction([...STORES], "readwrite");
+    for (const store of STORES) await tx.objectStore(store).clear();
+    for (const todo of snapshot.todos) {
+      await tx.objectStore("todos").put(withIndexKeys(todo));
+    }
+    for (const operation of snapshot.outbox) {
+      await tx.objectStore("outbox").put(operation);
+    }
+    for (const conflict of snapshot.conflicts) {
+      await tx.objectStore("conflicts").put(conflict);
+    }
+    for (const list of snapshot.lists) {
+      await tx.objectStore("lists").put(list);
+    }
+    for (const [key, value] of snapshot.meta) {
+      await tx.objectStore("meta").put(value, key);
+    }
+    await tx.done;
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    if (!this.db) await this.initDatabase();
+    return (await this.db!.get("meta", key)) as T | undefined;
+  }
+
+  // `changed` names what other windows should hear about, if anything
+  async setMeta(key: string, value: unknown, changed?: ChangedStore) {
+    if (!this.db) await this.initDatabase();
+    await this.db!.put("meta", value, key);
+    if (changed) this.notifyChange(changed);
   }
 }
 
 export const dbService = new DatabaseService();
-export type { TodoItem };
+export type {
+  TodoItem,
+  TodoFilter,
+  TodoSort,
+  TodoQuery,
+  TodoPage,
+  Priority,
+  Subtask,
+  OutboxOperation,
+  OperationType,
+  RemoteTodo,
+  TodoFields,
+  TodoConflict,
+  ConflictField,
+  ConflictResolution,
+  ListRole,
+  ListMember,
+  TodoList,
+  DatabaseChange,
+  DatabaseSnapshot,
+  DatabaseRecovery,
+};
+export { LockedError };
@@ -0,0 +1,84 @@
+import { dbService } from "./database";
+import { snapshotService } from "./snapshots";
+import { syncService } from "./sync";
+import type { SyncState } from "../types/electron";
+
+/**
+ * Reports sync state to the main process for the tray icon and
+ * notifications, and runs the syncs and menu commands the main process asks
+ * for. Runs in both the app window and the sync worker; the main process
+ * combines their reports. Does nothing outside Electron.
+ */
+class DesktopIntegration {
+  private status: SyncState["status"] = "synced";
+  // Failed syncs in a row; the main process notifies after a few
+  private failures = 0;
+  private error?: string;
+  private started = false;
+
+  start() {
+    const api = window.api;
+    if (!api || this.started) return;
+    this.started = true;
+
+    syncService.addEventListener("syncStart", () => {
+      this.status = "syncing";
+      this.report();
+    });
+    syncService.addEventListener("syncComplete", () => {
+      this.status = "synced";
+      this.failures = 0;
+      this.error = undefined;
+      this.report();
+    });
+    syncService.addEventListener("syncError", (data) => {
+      this.status = "error";
+      this.failures++;
+      this.error = (data as { message?: string } | undefined)?.message;
+      this.report();
+    });
+    syncService.addEventListener("authRequired", () => {
+      this.status = "error";
+      this.error = "Sign in to resume syncing";
+      this.report();
+    });
+    syncService.addEventListener("conflict", () => this.report());
+    syncService.addEventListener("remoteChange", () => this.report());
+    dbService.onChange(() => this.report());
+
+    api.onCommand((command) => {
+      if (command === "sync-now") syncService.syncData({ manual: true });
+      if (command === "lock") dbService.lock();
+    });
+    api.onSyncRequest(() => syncService.syncData());
+    api.onBeforeQuit(async () => {
+      await syncService.stop();
+      await snapshotService.stop();
+    });
+
+    this.report();
+  }
+
+  // Counts are read from the database each time, so they match whatever
+  // the last sync left behind
+  private async report() {
+    try {
+      const [pending, conflicts] = await Promise.all([
+        dbService.getPendingClientIds(),
+        dbService.countConflicts(),
+      ]);
+      window.api?.reportSyncState({
+        status:
+          this.status === "synced" && pending.size > 0 ? "pending" : this.status,
+        pending: pending.size,
+        conflicts,
+        failures: this.failures,
+        error: this.error,
+      });
+    } catch (error) {
+      console.error("Failed to report sync state:", error);
+    }
+  }
+}
+
+export const desktopIntegration = new DesktopIntegration();
@@ -0,0 +1,129 @@
+import { dbService, OperationType } from "./database";
+import { settingsService } from "./settings";
+import { snapshotService } from "./snapshots";
+import { syncLog } from "./syncLog";
+import { syncService } from "./sync";
+
+// Sync state of one todo, from its row and whatever is queued for it. A
+// todo deleted here but not yet on the server only has queued operations.
+interface DiagnosticRow {
+  clientId: string;
+  serverId?: string;
+  title?: string; // Unset once deleted here
+  lastAction?: OperationType; // Latest queued change
+  pending: number; // Queued operations
+  attempts: number; // Failed sends of the oldest queued operation
+  needsAction: boolean; // Refused by the server; edit or retry it by hand
+  syncedAt?: number;
+  localOnly: boolean; // The server has never seen it
+  syncError?: string;
+  conflict: boolean;
+}
+
+/**
+ * Backs the diagnostics panel: the sync state of every local todo, the
+ * actions to unstick one, and a bug report bundle that leaves out todo
+ * content, account details and the session.
+ */
+class DiagnosticsService {
+  async getRows(): Promise<DiagnosticRow[]> {
+    const [todos, operations, conflicts] = await Promise.all([
+      dbService.getAllTodos(),
+      dbService.getOutbox(),
+      dbService.getConflicts(),
+    ]);
+    const conflicted = new Set(conflicts.map((conflict) => conflict.clientId));
+    const rows = new Map<string, DiagnosticRow>();
+
+    for (const todo of todos) {
+      rows.set(todo.clientId, {
+        clientId: todo.clientId,
+        serverId: todo.serverId,
+        title: todo.title,
+        pending: 0,
+        attempts: 0,
+        needsAction: false,
+        syncedAt: todo.syncedAt,
+        localOnly: !todo.serverId,
+        syncError: todo.syncError,
+        conflict: conflicted.has(todo.clientId),
+      });
+    }
+    // In key order, so the last one seen is the latest change
+    for (const operation of operations) {
+      const row = rows.get(operation.clientId) ?? {
+        clientId: operation.clientId,
+        serverId: operation.serverId,
+        pending: 0,
+        attempts: operation.attempts,
+        needsAction: false,
+        localOnly: !operation.serverId,
+        syncError: operation.lastError,
+        conflict: conflicted.has(operation.clientId),
+      };
+      if (row.pending === 0) row.attempts = operation.attempts;
+      if (operation.needsAction) row.needsAction = true;
+      row.pending++;
+      row.lastAction = operation.type;
+      rows.set(operation.clientId, row);
+    }
+
+    // Rows that need attention first
+    const weight = (row: DiagnosticRow) =>
+      row.conflict ? 0 : row.syncError ? 1 : row.pending > 0 ? 2 : 3;
+    return [...rows.values()].sort((a, b) => weight(a) - weight(b));
+  }
+
+  // A todo in conflict is settled by taking the server's copy, which drops
+  // the local edit held in the conflict
+  async discard(row: DiagnosticRow) {
+    if (row.conflict) {
+      await dbService.resolveConflict(row.clientId, "theirs");
+    } else {
+      await dbService.discardChanges(row.clientId);
+    }
+  }
+
+  retry(row: DiagnosticRow) {
+    return syncService.retryItem(row.clientId);
+  }
+
+  resyncAll() {
+    return syncService.resyncAll();
+  }
+
+  // Unsent changes are lost, so the desktop app snapshots them first
+  async resetFromServer() {
+    if (window.api) await snapshotService.take("before-restore");
+    await syncService.resetFromServer();
+  }
+
+  // JSON for a bug report. Rows keep their ids and sync state but not their
+  // titles; the server shows up as its origin only.
+  async getBundle() {
+    const settings = settingsService.get();
+    const rows = await this.getRows();
+    return JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        app: {
+          version: (await window.api?.getVersion()) ?? "web",
+          platform: window.api?.platform ?? navigator.userAgent,
+        },
+        settings: {
+          ...settings,
+          serverUrl: new URL(settings.serverUrl, location.href).origin,
+        },
+        network: syncService.getNetworkStatus(),
+        encrypted: await dbService.isEncrypted(),
+        rows: rows.map((row) => ({ ...row, title: undefined })),
+        attempts: syncLog.getAttempts(),
+      },
+      null,
+      2
+    );
+  }
+}
+
+export const diagnosticsService = new DiagnosticsService();
+export type { DiagnosticRow };
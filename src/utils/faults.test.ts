@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FAULT_SCENARIOS } from "../../electron/faults";
+
+// The settings service looks for the Electron bridge on window
+vi.hoisted(() => vi.stubGlobal("window", {}));
+
+const { faultInjector } = await import("./faults");
+const { settingsService } = await import("./settings");
+
+const API = "http://localhost:5000/api";
+
+const scenario = (name: string) => {
+  const faults = FAULT_SCENARIOS.find((s) => s.scenario === name);
+  if (!faults) throw new Error(`No scenario named ${name}`);
+  return faults;
+};
+
+const applyScenario = (name: string | null) =>
+  settingsService.update({ faults: name === null ? null : scenario(name) });
+
+// The status a request gets, or "dropped" if it never got one
+const outcome = async (path: string) => {
+  try {
+    const response = await faultInjector.fetch(path, API + path, {});
+    return response.status;
+  } catch (error) {
+    return error instanceof TypeError ? "dropped" : error;
+  }
+};
+
+class FakeEventSource {
+  static opened: string[] = [];
+  constructor(readonly url: string) {
+    FakeEventSource.opened.push(url);
+  }
+  close() {}
+}
+
+describe("fault scenarios", () => {
+  const serverFetch = vi.fn(
+    async () => new Response('{"todos":[]}', { status: 200 })
+  );
+
+  beforeEach(() => {
+    serverFetch.mockClear();
+    FakeEventSource.opened = [];
+    vi.stubGlobal("fetch", serverFetch);
+    vi.stubGlobal("EventSource", FakeEventSource);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await applyScenario(null);
+  });
+
+  it("passes everything through without a scenario", async () => {
+    expect(await outcome("/todos/sync")).toBe(200);
+    await faultInjector.eventSource(`${API}/todos/events`);
+
+    expect(serverFetch).toHaveBeenCalledOnce();
+    expect(FakeEventSource.opened).toEqual([`${API}/todos/events`]);
+  });
+
+  it("Offline fails requests and event streams without reaching the server", async () => {
+    await applyScenario("Offline");
+
+    expect(await outcome("/todos/changes")).toBe("dropped");
+    await expect(
+      faultInjector.eventSource(`${API}/todos/events`)
+    ).rejects.toBeInstanceOf(TypeError);
+
+    expect(serverFetch).not.toHaveBeenCalled();
+    expect(FakeEventSource.opened).toEqual([]);
+  });
+
+  it("Slow network holds requests and event streams back", async () => {
+    vi.useFakeTimers();
+    await applyScenario("Slow network");
+
+    const request = faultInjector.fetch("/todos/changes", API, {});
+    const stream = faultInjector.eventSource(`${API}/todos/events`);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(serverFetch).not.toHaveBeenCalled();
+    expect(FakeEventSource.opened).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await request).status).toBe(200);
+    await stream;
+    expect(FakeEventSource.opened).toHaveLength(1);
+  });
+
+  it("Flaky network drops the same share of requests on every run", async () => {
+    vi.useFakeTimers();
+    const run = async () => {
+      await applyScenario(null);
+      await applyScenario("Flaky network");
+      const outcomes: unknown[] = [];
+      for (let i = 0; i < 50; i++) {
+        const next = outcome("/todos/changes");
+        await vi.advanceTimersByTimeAsync(300);
+        outcomes.push(await next);
+      }
+      return outcomes;
+    };
+
+    const first = await run();
+    expect(await run()).toEqual(first);
+    const dropped = first.filter((result) => result === "dropped").length;
+    expect(dropped).toBeGreaterThan(5);
+    expect(dropped).toBeLessThan(25);
+  });
+
+  it.each([
+    ["Sync server error", 500, null],
+    ["Sync rate limited", 429, "5"],
+  ])("%s answers sync requests itself", async (name, status, retryAfter) => {
+    await applyScenario(name);
+
+    const response = await faultInjector.fetch(
+      "/todos/sync",
+      `${API}/todos/sync`,
+      { method: "POST" }
+    );
+    expect(response.status).toBe(status);
+    expect(response.headers.get("Retry-After")).toBe(retryAfter);
+    expect(await response.json()).toMatchObject({ code: "injected_fault" });
+    expect(serverFetch).not.toHaveBeenCalled();
+
+    // Everything else still reaches the server
+    expect(await outcome("/todos/changes")).toBe(200);
+    expect(serverFetch).toHaveBeenCalledOnce();
+  });
+
+  it("Responses cut off breaks some bodies partway through", async () => {
+    await applyScenario("Responses cut off");
+
+    const bodies: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      const response = await faultInjector.fetch("/todos/sync", API, {});
+      expect(response.status).toBe(200);
+      bodies.push(await response.text().catch(() => "cut off"));
+    }
+
+    expect(bodies).toContain("cut off");
+    expect(bodies).toContain('{"todos":[]}');
+  });
+});
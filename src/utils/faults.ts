@@ -0,0 +1,108 @@
+import { settingsService } from "./settings";
+import type { FaultSettings } from "../types/electron";
+
+// Retry-After sent with injected 429 and 503 answers
+const INJECTED_RETRY_AFTER = "5";
+
+// Small seeded generator (mulberry32), so a scenario fails the same
+// requests every time it is run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// A response whose body stops halfway with a network error, as when the
+// connection drops mid-response
+const truncated = async (response: Response) => {
+  const body = new Uint8Array(await response.arrayBuffer());
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(body.subarray(0, Math.floor(body.length / 2)));
+      controller.error(new TypeError("Connection lost (injected fault)"));
+    },
+  });
+  return new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Developer fault injection for API requests and the server events stream,
+ * driven by the `faults` setting (see the Developer menu). Faults fail the
+ * way the real thing does: dropped requests reject with a TypeError like
+ * fetch, and injected statuses carry the server's error body.
+ */
+class FaultInjector {
+  private random = Math.random;
+
+  constructor() {
+    // A new scenario starts its random sequence over
+    settingsService.onChange((settings, previous) => {
+      if (JSON.stringify(settings.faults) !== JSON.stringify(previous.faults)) {
+        this.reset(settings.faults);
+      }
+    });
+    this.reset(settingsService.get().faults);
+  }
+
+  async fetch(path: string, url: string, init: RequestInit) {
+    const faults = settingsService.get().faults;
+    if (!faults) return fetch(url, init);
+
+    await this.connect(faults);
+    if (faults.syncStatus && path.startsWith("/todos/sync")) {
+      return new Response(
+        JSON.stringify({
+          code: "injected_fault",
+          message: `Injected ${faults.syncStatus} response`,
+        }),
+        {
+          status: faults.syncStatus,
+          headers: {
+            "Content-Type": "application/json",
+            ...([429, 503].includes(faults.syncStatus) && {
+              "Retry-After": INJECTED_RETRY_AFTER,
+            }),
+          },
+        }
+      );
+    }
+
+    const response = await fetch(url, init);
+    return this.random() * 100 < faults.truncatePercent
+      ? truncated(response)
+      : response;
+  }
+
+  // Opens a server events stream. Each attempt, reconnects included, can
+  // fail or wait like a request; a stream that opened is left alone.
+  async eventSource(url: string) {
+    const faults = settingsService.get().faults;
+    if (faults) await this.connect(faults);
+    return new EventSource(url);
+  }
+
+  // Faults that hit before anything reaches the server
+  private async connect(faults: FaultSettings) {
+    if (faults.offline) {
+      throw new TypeError("Failed to fetch (injected fault: offline)");
+    }
+    if (faults.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, faults.latencyMs));
+    }
+    if (this.random() * 100 < faults.dropPercent) {
+      throw new TypeError("Failed to fetch (injected fault: dropped)");
+    }
+  }
+
+  private reset(faults: FaultSettings | null) {
+    this.random = faults ? seededRandom(faults.seed) : Math.random;
+    if (faults) console.warn(`Injecting network faults: ${faults.scenario}`);
+  }
+}
+
+export const faultInjector = new FaultInjector();
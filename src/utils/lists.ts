@@ -0,0 +1,65 @@
+import { authService } from "./auth";
+import { dbService, ListRole, TodoList } from "./database";
+import { HttpError, parseRetryAfter } from "./retry";
+import { ApiList, describeError, ErrorBody } from "../../shared/api";
+
+// The server only sends lists the user belongs to, so role is always set
+const toTodoList = (list: ApiList): TodoList => ({
+  id: list._id,
+  name: list.name,
+  role: list.role ?? "viewer",
+  members: list.members,
+});
+
+// Lists are managed online only; the cached copies keep working offline
+class ListService {
+  private async request(path: string, init: RequestInit = {}) {
+    const response = await authService.fetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    });
+    if (!response.ok) {
+      const data: Partial<ErrorBody> = await response
+        .json()
+        .catch(() => ({}));
+      throw new HttpError(
+        describeError(data.message || response.statusText, data.details),
+        response.status,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    }
+    return response.json();
+  }
+
+  // Refreshes the cached lists; true when the user joined a new list
+  async refresh() {
+    const lists: ApiList[] = await this.request("/lists");
+    return dbService.saveLists(lists.map(toTodoList));
+  }
+
+  async createList(name: string) {
+    const list: ApiList = await this.request("/lists", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    });
+    await this.refresh();
+    return toTodoList(list);
+  }
+
+  async addMember(listId: string, email: string, role: ListRole) {
+    await this.request(`/lists/${listId}/members`, {
+      method: "POST",
+      body: JSON.stringify({ email, role }),
+    });
+    await this.refresh();
+  }
+
+  async removeMember(listId: string, userId: string) {
+    await this.request(`/lists/${listId}/members/${userId}`, {
+      method: "DELETE",
+    });
+    await this.refresh();
+  }
+}
+
+export const listService = new ListService();
@@ -0,0 +1,166 @@
+import "fake-indexeddb/auto";
+import { openDB } from "idb";
+import { describe, expect, it } from "vitest";
+import { DB_VERSION, runMigrations } from "./migrations";
+
+let databases = 0;
+
+// Opens a database of its own for each test, migrated up to `version`
+const openAt = (name: string, version: number) =>
+  openDB(name, version, {
+    upgrade: (db, oldVersion, newVersion, transaction) =>
+      runMigrations(db, oldVersion, newVersion ?? version, transaction),
+  });
+
+const freshName = () => `migrations-test-${++databases}`;
+
+describe("runMigrations", () => {
+  it("creates every store and index from scratch", async () => {
+    const db = await openAt(freshName(), DB_VERSION);
+
+    expect([...db.objectStoreNames].sort()).toEqual([
+      "conflicts",
+      "lists",
+      "meta",
+      "outbox",
+      "todos",
+    ]);
+    const tx = db.transaction(["todos", "outbox"]);
+    expect([...tx.objectStore("todos").indexNames].sort()).toEqual([
+      "clientId",
+      "list_createdAt",
+      "list_done_createdAt",
+      "list_done_dueAt",
+      "list_done_updatedAt",
+      "list_dueAt",
+      "list_updatedAt",
+      "serverId",
+    ]);
+    expect([...tx.objectStore("outbox").indexNames]).toEqual(["clientId"]);
+    db.close();
+  });
+
+  it("turns v4 row flags into v5 outbox operations", async () => {
+    const name = freshName();
+    const legacy = await openAt(name, 4);
+    const rows = [
+      // Synced and untouched: no operation
+      { clientId: "synced", title: "Synced", syncedAt: 100, updatedAt: 100 },
+      // Never synced: a create
+      { clientId: "new", title: "New", lastAction: "create", localOnly: true, updatedAt: 50 },
+      // Edited since the last sync: an update against the synced copy
+      {
+        clientId: "edited",
+        serverId: "s-edited",
+        title: "Edited",
+        lastAction: "update",
+        syncedAt: 100,
+        updatedAt: 200,
+        serverVersion: 3,
+      },
+      // Deleted here, not yet on the server: the row goes, a delete is queued
+      {
+        clientId: "deleted",
+        serverId: "s-deleted",
+        title: "Deleted",
+        deleted: true,
+        lastAction: "delete",
+        syncedAt: 100,
+        updatedAt: 150,
+      },
+      // Deleted on the server: the row just goes
+      {
+        clientId: "gone",
+        serverId: "s-gone",
+        title: "Gone",
+        deleted: true,
+        serverDeleted: true,
+        syncedAt: 100,
+        updatedAt: 100,
+      },
+    ];
+    for (const row of rows) {
+      await legacy.add("todos", { completed: false, createdAt: 10, ...row });
+    }
+    legacy.close();
+
+    const db = await openAt(name, 5);
+    const todos = await db.getAll("todos");
+    expect(todos.map((todo) => todo.clientId).sort()).toEqual([
+      "edited",
+      "new",
+      "synced",
+    ]);
+    for (const todo of todos) {
+      expect(todo).not.toHaveProperty("lastAction");
+      expect(todo).not.toHaveProperty("localOnly");
+      expect(todo).not.toHaveProperty("deleted");
+    }
+
+    const operations = await db.getAll("outbox");
+    expect(
+      operations.map(({ clientId, type, serverId, baseVersion }) => ({
+        clientId,
+        type,
+        serverId,
+        baseVersion,
+      }))
+    ).toEqual([
+      { clientId: "new", type: "create", serverId: undefined, baseVersion: undefined },
+      { clientId: "edited", type: "update", serverId: "s-edited", baseVersion: 3 },
+      { clientId: "deleted", type: "delete", serverId: "s-deleted", baseVersion: undefined },
+    ]);
+    expect(operations[1].payload).toEqual({
+      title: "Edited",
+      completed: false,
+      createdAt: 10,
+      updatedAt: 200,
+    });
+    db.close();
+  });
+
+  it("adds v7 index keys to v6 rows", async () => {
+    const name = freshName();
+    const v6 = await openAt(name, 6);
+    await v6.add("todos", {
+      clientId: "listed",
+      listId: "list-1",
+      title: "Listed",
+      completed: true,
+      dueAt: 500,
+      createdAt: 1,
+      updatedAt: 1,
+    });
+    await v6.add("todos", {
+      clientId: "personal",
+      title: "Personal",
+      completed: false,
+      createdAt: 2,
+      updatedAt: 2,
+    });
+    v6.close();
+
+    const db = await openAt(name, 7);
+    const [listed, personal] = await db.getAll("todos");
+    expect(listed).toMatchObject({ listKey: "list-1", done: 1, dueKey: 500 });
+    expect(personal).toMatchObject({
+      listKey: "",
+      done: 0,
+      dueKey: Number.MAX_SAFE_INTEGER,
+    });
+
+    // The new indexes find the rows by their keys
+    const tx = db.transaction("todos");
+    const open = await tx
+      .objectStore("todos")
+      .index("list_done_dueAt")
+      .getAll(IDBKeyRange.bound(["", 0], ["", 0, []]));
+    expect(open.map((todo) => todo.clientId)).toEqual(["personal"]);
+    const byClientId = await tx
+      .objectStore("todos")
+      .index("clientId")
+      .get("listed");
+    expect(byClientId?.title).toBe("Listed");
+    db.close();
+  });
+});
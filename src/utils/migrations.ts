@@ -0,0 +1,196 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from "idb";
+import type { OperationType, OutboxOperation, TodoItem } from "./database";
+
+type UpgradeTransaction = IDBPTransaction<
+  unknown,
+  StoreNames<unknown>[],
+  "versionchange"
+>;
+
+/**
+ * One schema step, upgrading the database from `version - 1` to `version`.
+ * Steps run inside the versionchange transaction, so a step that throws
+ * aborts the whole upgrade and leaves the existing data untouched.
+ *
+ * Steps are frozen once released: they describe the data as it was at that
+ * version, so they must not reuse helpers that follow the current model.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBPDatabase, transaction: UpgradeTransaction) => Promise<void>;
+}
+
+// Rows written before the outbox existed tracked pending work in flags
+type LegacyTodoItem = TodoItem & {
+  deleted?: boolean;
+  lastAction?: OperationType;
+  localOnly?: boolean;
+  serverDeleted?: boolean;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the todos store",
+    migrate: async (db) => {
+      db.createObjectStore("todos", { keyPath: "id", autoIncrement: true });
+    },
+  },
+  {
+    version: 2,
+    description: "Key/value store for sync bookkeeping such as the pull cursor",
+    migrate: async (db) => {
+      db.createObjectStore("meta");
+    },
+  },
+  {
+    version: 3,
+    description: "Give todos created before client ids existed one of their own",
+    migrate: async (_db, transaction) => {
+      let cursor = await transaction.objectStore("todos").openCursor();
+      while (cursor) {
+        const todo = cursor.value as TodoItem;
+        if (!todo.clientId) {
+          await cursor.update({ ...todo, clientId: crypto.randomUUID() });
+        }
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Unresolved conflicts, one per todo, keyed by client id",
+    migrate: async (db) => {
+      db.createObjectStore("conflicts", { keyPath: "clientId" });
+    },
+  },
+  {
+    version: 5,
+    description: "Turn pending work tracked in row flags into outbox operations",
+    migrate: async (db, transaction) => {
+      const outbox = db.createObjectStore("outbox", {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      outbox.createIndex("clientId", "clientId");
+
+      let cursor = await transaction.objectStore("todos").openCursor();
+      while (cursor) {
+        const legacy = cursor.value as LegacyTodoItem;
+        const { deleted, lastAction } = legacy;
+        const todo: TodoItem = {
+          id: legacy.id,
+          clientId: legacy.clientId,
+          serverId: legacy.serverId,
+          title: legacy.title,
+          completed: legacy.completed,
+          createdAt: legacy.createdAt,
+          updatedAt: legacy.updatedAt,
+          syncedAt: legacy.syncedAt,
+          syncError: legacy.syncError,
+          serverVersion: legacy.serverVersion,
+          base: legacy.base,
+        };
+        const type: OperationType | undefined = deleted
+          ? lastAction === "delete" ? "delete" : undefined
+          : todo.syncedAt === undefined
+          ? "create"
+          : lastAction === "update" && todo.updatedAt > todo.syncedAt
+          ? "update"
+          : undefined;
+
+        if (type) {
+          const operation: OutboxOperation = {
+            clientId: todo.clientId,
+            todoId: todo.id!,
+            serverId: todo.serverId,
+            type,
+            payload: {
+              title: todo.title,
+              completed: todo.completed,
+              createdAt: todo.createdAt,
+              updatedAt: todo.updatedAt,
+            },
+            baseVersion: todo.serverVersion,
+            base: todo.base,
+            attempts: 0,
+            createdAt: Date.now(),
+          };
+          await outbox.add(operation);
+        }
+        if (deleted) {
+          await cursor.delete();
+        } else {
+          await cursor.update(todo);
+        }
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 6,
+    description: "Cache of the shared lists the user belongs to",
+    migrate: async (db) => {
+      db.createObjectStore("lists", { keyPath: "id" });
+    },
+  },
+  {
+    version: 7,
+    description: "Index todos for filtered, sorted and paged queries",
+    migrate: async (_db, transaction) => {
+      const todos = transaction.objectStore("todos");
+      todos.createIndex("clientId", "clientId");
+      todos.createIndex("serverId", "serverId");
+      // The trailing id keeps keys unique, so paging never skips a todo
+      for (const sort of ["createdAt", "updatedAt", "dueKey"]) {
+        const name = sort === "dueKey" ? "dueAt" : sort;
+        todos.createIndex(`list_${name}`, ["listKey", sort, "id"]);
+        todos.createIndex(`list_done_${name}`, ["listKey", "done", sort, "id"]);
+      }
+
+      // Booleans and unset values can't be index keys, so existing rows get
+      // numeric and string stand-ins
+      let cursor = await todos.openCursor();
+      while (cursor) {
+        const todo = cursor.value as TodoItem;
+        await cursor.update({
+          ...todo,
+          listKey: todo.listId ?? "",
+          done: todo.completed ? 1 : 0,
+          dueKey: todo.dueAt ?? Number.MAX_SAFE_INTEGER,
+        });
+        cursor = await cursor.continue();
+      }
+    },
+  },
+];
+
+MIGRATIONS.forEach((migration, index) => {
+  if (migration.version !== index + 1) {
+    throw new Error(`Migration ${migration.version} is out of order`);
+  }
+});
+
+// The version the database is opened at: that of the last migration
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs, in order, every migration after `oldVersion` up to `newVersion`.
+ * Called from the `upgrade` callback of `openDB`.
+ */
+export const runMigrations = async (
+  db: IDBPDatabase,
+  oldVersion: number,
+  newVersion: number,
+  transaction: UpgradeTransaction
+) => {
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= oldVersion || migration.version > newVersion) {
+      continue;
+    }
+    await migration.migrate(db, transaction);
+  }
+};
+
+export type { Migration };
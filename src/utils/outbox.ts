@@ -0,0 +1,59 @@
+import type { OutboxOperation } from "./database";
+
+/**
+ * Folds a later operation on the same todo into an earlier one. Returns null
+ * when the two cancel out, i.e. a todo created and deleted before the create
+ * was ever sent. The earlier operation's id, base version and attempt count
+ * are kept so the result replays in its original position; a change the
+ * server refused is worth sending again once it has been edited.
+ */
+const mergeOperations = (
+  previous: OutboxOperation,
+  next: OutboxOperation
+): OutboxOperation | null => {
+  if (previous.type === "delete") return previous;
+
+  if (next.type === "delete") {
+    if (previous.type === "create" && previous.attempts === 0) return null;
+    return {
+      ...previous,
+      type: "delete",
+      payload: next.payload,
+      needsAction: false,
+    };
+  }
+
+  return { ...previous, payload: next.payload, needsAction: false };
+};
+
+/**
+ * Compacts an ordered outbox down to at most one operation per todo.
+ * `operations` is the compacted list in replay order and `removedIds` the
+ * operations that were folded away and should be deleted from the store.
+ */
+export const compactOperations = (operations: OutboxOperation[]) => {
+  const compacted = new Map<string, OutboxOperation>();
+  const removedIds: number[] = [];
+
+  for (const operation of operations) {
+    const previous = compacted.get(operation.clientId);
+    if (!previous) {
+      compacted.set(operation.clientId, operation);
+      continue;
+    }
+
+    const merged = mergeOperations(previous, operation);
+    removedIds.push(operation.id!);
+    if (merged) {
+      compacted.set(operation.clientId, merged);
+    } else {
+      removedIds.push(previous.id!);
+      compacted.delete(operation.clientId);
+    }
+  }
+
+  return {
+    operations: [...compacted.values()].sort((a, b) => a.id! - b.id!),
+    removedIds,
+  };
+};
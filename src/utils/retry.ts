@@ -0,0 +1,140 @@
+import { AuthError } from "./auth";
+import { settingsService } from "./settings";
+
+// How a failed sync is handled: transient failures are retried, permanent
+// ones wait for the next sync, auth failures wait for the user to sign in
+type ErrorKind = "transient" | "permanent" | "auth";
+
+// The server answered with an error status
+class HttpError extends Error {
+  status: number;
+  // Milliseconds the server asked us to wait, from Retry-After
+  retryAfter?: number;
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Retry-After holds either seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const delay = Number.isNaN(seconds)
+    ? Date.parse(value) - Date.now()
+    : seconds * 1000;
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+};
+
+const classifyError = (error: unknown): ErrorKind => {
+  if (error instanceof AuthError) return "auth";
+  if (error instanceof HttpError) {
+    // Timeouts, rate limits and server trouble pass; other refusals won't
+    return error.status === 408 || error.status === 429 || error.status >= 500
+      ? "transient"
+      : "permanent";
+  }
+  // Unreachable servers, dropped connections, garbled responses
+  return "transient";
+};
+
+type RetryState = {
+  // Failed syncs in a row
+  attempt: number;
+  // When the next retry runs; null when none is scheduled
+  nextRetryAt: number | null;
+  circuitOpen: boolean;
+};
+
+const BASE_DELAY = 1000;
+// How long an open circuit waits before letting a single trial sync through
+const CIRCUIT_COOLDOWN = 5 * 60 * 1000;
+// A bogus Retry-After mustn't stall sync for days
+const MAX_RETRY_AFTER = 60 * 60 * 1000;
+
+/**
+ * Schedules retries of failed syncs: exponential backoff with jitter, or
+ * the server's Retry-After when it is longer. Once failures in a row exceed
+ * the retry setting the circuit opens, and sync waits out a cooldown before
+ * a single trial run; another failure opens it again.
+ */
+class RetryScheduler {
+  private attempt = 0;
+  private nextRetryAt: number | null = null;
+  private circuitOpen = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retry: () => void;
+
+  constructor(retry: () => void) {
+    this.retry = retry;
+  }
+
+  // Automatic syncs hold off while a retry is scheduled
+  get waiting() {
+    return this.timer !== null;
+  }
+
+  getState(): RetryState {
+    return {
+      attempt: this.attempt,
+      nextRetryAt: this.nextRetryAt,
+      circuitOpen: this.circuitOpen,
+    };
+  }
+
+  // Records a failed sync and schedules a retry if one can help
+  failed(error: unknown, kind: ErrorKind) {
+    this.cancel();
+    if (kind !== "transient") return this.getState();
+
+    this.attempt++;
+    const { maxRetries, maxRetryDelaySeconds } = settingsService.get();
+    this.circuitOpen = this.attempt > maxRetries;
+
+    let delay = CIRCUIT_COOLDOWN;
+    if (!this.circuitOpen) {
+      const ceiling = Math.min(
+        BASE_DELAY * 2 ** (this.attempt - 1),
+        maxRetryDelaySeconds * 1000
+      );
+      // Half of it random, so clients that failed together spread out
+      delay = ceiling / 2 + (Math.random() * ceiling) / 2;
+    }
+    if (error instanceof HttpError && error.retryAfter !== undefined) {
+      delay = Math.max(delay, Math.min(error.retryAfter, MAX_RETRY_AFTER));
+    }
+
+    this.nextRetryAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextRetryAt = null;
+      this.retry();
+    }, delay);
+    return this.getState();
+  }
+
+  // Forgets past failures, after a successful sync or once the network is
+  // back
+  reset() {
+    this.cancel();
+    this.attempt = 0;
+    this.circuitOpen = false;
+  }
+
+  cancel() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRetryAt = null;
+  }
+}
+
+export {
+  HttpError,
+  RetryScheduler,
+  classifyError,
+  parseRetryAfter,
+};
+export type { ErrorKind, RetryState };
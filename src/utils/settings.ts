@@ -0,0 +1,86 @@
+import type { AppSettings } from "../types/electron";
+
+// Used until the saved settings load, and for good in a plain browser
+const DEFAULT_SETTINGS: AppSettings = {
+  serverUrl: "http://localhost:5000/api",
+  autoSync: true,
+  syncIntervalMinutes: 5,
+  maxRetries: 3,
+  maxRetryDelaySeconds: 30,
+  autoLockMinutes: 15,
+  faults: null,
+};
+
+type SettingsListener = (settings: AppSettings, previous: AppSettings) => void;
+
+/**
+ * The renderer's copy of the settings the main process stores. Changes made
+ * anywhere, including other windows, arrive through onSettingsChanged.
+ * Outside Electron changes apply but aren't saved.
+ */
+class SettingsService {
+  private settings = DEFAULT_SETTINGS;
+  private listeners = new Set<SettingsListener>();
+  private loading: Promise<AppSettings> | null = null;
+
+  constructor() {
+    window.api?.onSettingsChanged(this.apply);
+  }
+
+  // Resolves once the saved settings are in place
+  load() {
+    this.loading ??= (async () => {
+      if (window.api) {
+        try {
+          this.apply(await window.api.getSettings());
+        } catch (error) {
+          console.error("Failed to load settings:", error);
+        }
+      }
+      return this.settings;
+    })();
+    return this.loading;
+  }
+
+  get() {
+    return this.settings;
+  }
+
+  async update(changes: Partial<AppSettings>) {
+    if (!window.api) {
+      this.apply({ ...this.settings, ...changes });
+      return this.settings;
+    }
+    try {
+      this.apply(await window.api.updateSettings(changes));
+      return this.settings;
+    } catch (error) {
+      // Drop the IPC wrapper so the main process's own message shows
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        message.replace(/^Error invoking remote method '[^']+': (Error: )?/, "")
+      );
+    }
+  }
+
+  // Returns a function that removes the listener
+  onChange(listener: SettingsListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply = (settings: AppSettings) => {
+    const previous = this.settings;
+    // Our own updates come back through onSettingsChanged too
+    if (JSON.stringify(settings) === JSON.stringify(previous)) return;
+    this.settings = settings;
+    this.listeners.forEach((listener) => listener(settings, previous));
+  };
+}
+
+export const settingsService = new SettingsService();
+
+// Full URL of an API path such as "/todos/sync"
+export const apiUrl = (path: string) => `${settingsService.get().serverUrl}${path}`;
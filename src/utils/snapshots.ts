@@ -0,0 +1,138 @@
+import type { SnapshotInfo, SnapshotReason } from "../types/electron";
+import { LAST_USER_KEY, SESSION_KEY } from "./auth";
+import { DatabaseSnapshot, dbService } from "./database";
+import { DB_VERSION } from "./migrations";
+import { syncService } from "./sync";
+
+const SNAPSHOT_INTERVAL = 30 * 60 * 1000;
+
+// Rejects anything that isn't a database copy before it replaces ours
+const parseSnapshot = (text: string): DatabaseSnapshot => {
+  const snapshot = JSON.parse(text);
+  const stores = ["todos", "outbox", "conflicts", "lists", "meta"];
+  if (
+    typeof snapshot?.version !== "number" ||
+    !stores.every((store) => Array.isArray(snapshot[store]))
+  ) {
+    throw new Error("The snapshot can't be read");
+  }
+  return snapshot;
+};
+
+/**
+ * Saves copies of the whole local database, pending operations included,
+ * through the main process: every half hour while there are local changes,
+ * and on quit. Restoring one rolls the database back and then syncs, which
+ * replays its pending operations and pulls whatever changed since.
+ */
+class SnapshotService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private changed = false;
+
+  constructor() {
+    // A damaged or vanished database is rebuilt from the latest snapshot,
+    // after what a damaged one still holds is saved as well
+    dbService.setRecoverySource({
+      latest: () => this.latest(),
+      keep: (snapshot) => this.save("before-recovery", snapshot),
+    });
+  }
+
+  start() {
+    if (!window.api) return;
+    // Each window snapshots its own writes, syncs included
+    dbService.onChange(({ external }) => {
+      if (!external) this.changed = true;
+    });
+    this.timer = setInterval(() => {
+      this.takeIfChanged("scheduled").catch((error) =>
+        console.error("Failed to take snapshot:", error)
+      );
+    }, SNAPSHOT_INTERVAL);
+  }
+
+  // Takes a last snapshot before the app quits
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.takeIfChanged("quit");
+  }
+
+  // Rows are copied as stored, so encrypted todos stay encrypted on disk
+  async take(reason: SnapshotReason) {
+    return this.save(reason, await dbService.exportSnapshot());
+  }
+
+  private async save(reason: SnapshotReason, snapshot: DatabaseSnapshot) {
+    if (!window.api) throw new Error("Snapshots need the desktop app");
+    this.changed = false;
+    // The session token stays out of files on disk
+    snapshot.meta = snapshot.meta.filter(([key]) => key !== SESSION_KEY);
+    return window.api.saveSnapshot(
+      {
+        reason,
+        dbVersion: snapshot.version,
+        todos: snapshot.todos.length,
+        pending: snapshot.outbox.length,
+      },
+      JSON.stringify(snapshot)
+    );
+  }
+
+  async list(): Promise<SnapshotInfo[]> {
+    return (await window.api?.listSnapshots()) ?? [];
+  }
+
+  /**
+   * Rolls the database back to a snapshot, keeping a snapshot of the
+   * current state first so the restore can be undone. Runs while no window
+   * is syncing, then syncs: operations already sent are matched by client
+   * id, and edits made on the server since show up as conflicts.
+   */
+  async restore(id: string) {
+    const snapshot = parseSnapshot(await window.api!.readSnapshot(id));
+    if (snapshot.version !== DB_VERSION) {
+      throw new Error("This snapshot is from another version of the app");
+    }
+    const meta = new Map(snapshot.meta);
+    const currentUser = await dbService.getMeta<string>(LAST_USER_KEY);
+    const snapshotUser = meta.get(LAST_USER_KEY);
+    if (currentUser && snapshotUser && snapshotUser !== currentUser) {
+      throw new Error("This snapshot belongs to another account");
+    }
+
+    await this.take("before-restore");
+    // Stay signed in
+    const session = await dbService.getMeta(SESSION_KEY);
+    if (session) meta.set(SESSION_KEY, session);
+    await syncService.resyncAfter(() =>
+      dbService.restoreSnapshot({ ...snapshot, meta: [...meta] })
+    );
+  }
+
+  // Skips an empty database, so a wiped one never rotates out good copies
+  private async takeIfChanged(reason: SnapshotReason) {
+    if (!this.changed) return null;
+    const snapshot = await dbService.exportSnapshot();
+    if (snapshot.todos.length === 0 && snapshot.outbox.length === 0) {
+      return null;
+    }
+    return this.save(reason, snapshot);
+  }
+
+  // The newest snapshot this version of the app can restore
+  private async latest() {
+    for (const info of await this.list()) {
+      if (info.dbVersion !== DB_VERSION) continue;
+      try {
+        const snapshot = parseSnapshot(await window.api!.readSnapshot(info.id));
+        return { snapshot, takenAt: info.takenAt };
+      } catch (error) {
+        console.warn(`Skipping snapshot ${info.id}:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export const snapshotService = new SnapshotService();
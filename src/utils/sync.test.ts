@@ -0,0 +1,70 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it, vi } from "vitest";
+import type { AppSettings } from "../types/electron";
+
+// Settings saved by the main process, handed over once the test is ready
+let loadSettings: (settings: AppSettings) => void = () => undefined;
+
+// An Electron window that starts offline, so nothing reaches a server
+vi.stubGlobal("navigator", { onLine: false });
+vi.stubGlobal("document", {
+  visibilityState: "hidden",
+  addEventListener: () => undefined,
+});
+vi.stubGlobal("window", {
+  addEventListener: () => undefined,
+  api: {
+    getNetworkStatus: async () => "offline",
+    onNetworkStatus: () => () => undefined,
+    checkNetwork: async () => "offline",
+    getSettings: () =>
+      new Promise<AppSettings>((resolve) => {
+        loadSettings = resolve;
+      }),
+    onSettingsChanged: () => () => undefined,
+  },
+});
+
+const { dbService } = await import("./database");
+const { authService, SESSION_KEY } = await import("./auth");
+const { settingsService } = await import("./settings");
+
+describe("SyncService", () => {
+  it("keeps the session when the saved server differs from the default", async () => {
+    const session = {
+      token: "token",
+      user: { id: "user-1", email: "user@example.com" },
+    };
+    await dbService.setMeta(SESSION_KEY, session);
+    const { syncService } = await import("./sync");
+    const authRequired = vi.fn();
+    syncService.addEventListener("authRequired", authRequired);
+
+    loadSettings({
+      ...settingsService.get(),
+      serverUrl: "https://todos.example.com/api",
+    });
+    await settingsService.load();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(settingsService.get().serverUrl).toBe("https://todos.example.com/api");
+    expect(authRequired).not.toHaveBeenCalled();
+    expect(await authService.getSession()).toEqual(session);
+    expect(await dbService.getMeta(SESSION_KEY)).toEqual(session);
+  });
+
+  it("reads the session again once another window signs in", async () => {
+    const session = {
+      token: "other-token",
+      user: { id: "user-2", email: "other@example.com" },
+    };
+    // Written by the app window while this one is the sync worker
+    await dbService.setMeta(SESSION_KEY, session);
+    const otherWindow = new BroadcastChannel("offline-app-db-changes");
+    otherWindow.postMessage(["session"]);
+    otherWindow.close();
+    await vi.waitFor(async () =>
+      expect(await authService.getSession()).toEqual(session)
+    );
+  });
+});
@@ -1,32 +1,202 @@
-import { dbService, TodoItem } from "./database";
+import { apiUrl, settingsService } from "./settings";
+import { authService, AuthError } from "./auth";
+import { listService } from "./lists";
+import {
+  classifyError,
+  ErrorKind,
+  HttpError,
+  parseRetryAfter,
+  RetryScheduler,
+} from "./retry";
+import {
+  dbService,
+  LockedError,
+  OutboxOperation,
+  RemoteTodo,
+  ConflictField,
+  TodoFields,
+} from "./database";
+import {
+  ApiFieldConflict,
+  ApiTodo,
+  ChangesResponse,
+  describeError,
+  ErrorBody,
+  SyncResponse,
+} from "../../shared/api";
+import { faultInjector } from "./faults";
+import { syncLog } from "./syncLog";
+import type { AppSettings, NetworkStatus } from "../types/electron";
 
-const API_BASE_URL = "http://localhost:5000/api";
+const SYNC_CURSOR_KEY = "syncCursor";
+// Held by whichever window or tab is syncing the shared database
+const SYNC_LOCK = "offline-app-sync";
+// Item codes the server would answer again for the same change
+const PERMANENT_CODES = new Set(["validation_failed", "duplicate"]);
+
+const toRemoteTodo = (serverTodo: ApiTodo): RemoteTodo => ({
+  serverId: serverTodo._id,
+  clientId: serverTodo.clientId,
+  listId: serverTodo.listId ?? undefined,
+  title: serverTodo.title,
+  completed: serverTodo.completed,
+  dueAt: serverTodo.dueAt ? new Date(serverTodo.dueAt).getTime() : undefined,
+  priority: serverTodo.priority ?? undefined,
+  notes: serverTodo.notes,
+  tags: serverTodo.tags,
+  subtasks: serverTodo.subtasks,
+  createdAt: new Date(serverTodo.createdAt).getTime(),
+  updatedAt: new Date(serverTodo.updatedAt).getTime(),
+  syncedAt: new Date(serverTodo.syncedAt).getTime(),
+  deleted: serverTodo.deleted ?? false,
+  serverVersion: serverTodo.version,
+});
+
+// Unset fields go out as explicit empty values so the server clears them
+const toServerFields = (fields: TodoFields) => ({
+  title: fields.title,
+  completed: fields.completed,
+  dueAt: fields.dueAt ?? null,
+  priority: fields.priority ?? null,
+  notes: fields.notes ?? "",
+  tags: fields.tags ?? [],
+  subtasks: fields.subtasks ?? [],
+});
+
+// Conflicting due dates come back as ISO strings
+const toConflictField = (conflict: ApiFieldConflict): ConflictField => {
+  const field = { ...conflict, field: conflict.field as keyof TodoFields };
+  if (field.field !== "dueAt") return field;
+  const toTime = (value: unknown) =>
+    value ? new Date(value as string).getTime() : undefined;
+  return {
+    field: field.field,
+    base: toTime(field.base),
+    local: toTime(field.local),
+    remote: toTime(field.remote),
+  };
+};
 
 type SyncEventType =
   | "syncStart"
   | "syncComplete"
   | "syncError"
+  | "conflict"
+  | "remoteChange"
+  | "authRequired"
   | "onlineStatusChange";
 type SyncEventListener = (data?: unknown) => void;
 
+// Sent with "syncError"
+type SyncErrorEvent = {
+  message: string;
+  kind: ErrorKind;
+  attempt: number;
+  // When sync retries on its own; null if it won't
+  nextRetryAt: number | null;
+  // Too many failures in a row; sync waits longer before trying again
+  circuitOpen: boolean;
+};
+
+// The server's error body, as an HttpError that carries status and
+// Retry-After for the retry scheduler
+const toHttpError = async (response: Response, prefix: string) => {
+  const errorData: Partial<ErrorBody> = await response
+    .json()
+    .catch(() => ({}));
+  console.error("Server returned error:", errorData);
+  return new HttpError(
+    `${prefix}: ${describeError(
+      errorData.message || response.statusText,
+      errorData.details
+    )}`,
+    response.status,
+    parseRetryAfter(response.headers.get("Retry-After"))
+  );
+};
+
 class SyncService {
-  private isOnline = navigator.onLine;
-  private syncInProgress = false;
+  // Electron's main process reports whether the server is reachable;
+  // in a plain browser all we have is navigator.onLine
+  private networkStatus: NetworkStatus = navigator.onLine ? "online" : "offline";
+  // The sync running now, shared by anyone who asks for one meanwhile
+  private currentSync: Promise<void> | null = null;
   private eventListeners: Map<SyncEventType, SyncEventListener[]> = new Map();
-  private retryTimeout: NodeJS.Timeout | null = null;
-  private maxRetries = 3;
-  private retryCount = 0;
+  // A retry carries on a sync that already started, so it goes ahead even
+  // with auto-sync off
+  private retry = new RetryScheduler(() => this.syncData({ manual: true }));
+  private eventSource: EventSource | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  // Set after a 401; sync waits for the user to sign in again
+  private authPaused = false;
+  // Set once the app is quitting
+  private stopped = false;
+  // Set by resyncAll; the next pull starts over and drops what the server
+  // no longer has
+  private fullResyncRequested = false;
 
   constructor() {
-    window.addEventListener("online", this.handleOnline);
-    window.addEventListener("offline", this.handleOffline);
+    window.addEventListener("online", this.handleConnectivityChange);
+    window.addEventListener("offline", this.handleConnectivityChange);
     document.addEventListener("visibilitychange", this.handleVisibilityChange);
 
-    // Initial sync when service is created
-    if (document.visibilityState === "visible" && navigator.onLine) {
-      console.log("Initial sync on service creation...");
+    if (window.api) {
+      window.api.onNetworkStatus(this.setNetworkStatus);
+      window.api.getNetworkStatus().then(this.setNetworkStatus);
+    }
+
+    // Nothing can be read or saved while locked; catch up once unlocked
+    dbService.onLockChange((locked) => {
+      if (!locked) this.syncData();
+    });
+
+    // Signed in from another window, e.g. the app window while this is the
+    // sync worker
+    dbService.onChange(async ({ stores, external }) => {
+      if (!external || !stores.includes("session") || !this.authPaused) return;
+      if (await authService.getToken()) this.resume();
+    });
+
+    // Nothing talks to the server before the configured URL is known
+    settingsService.load().then(() => {
+      // Only now, so the saved settings replacing the built-in defaults
+      // don't count as a switch to another server
+      settingsService.onChange(this.handleSettingsChange);
+      if (this.isOnline) {
+        this.subscribe();
+      }
+
+      // Initial sync when service is created
+      if (document.visibilityState === "visible" && this.isOnline) {
+        console.log("Initial sync on service creation...");
+        this.syncData();
+      }
+    });
+  }
+
+  private handleSettingsChange = (
+    settings: AppSettings,
+    previous: AppSettings
+  ) => {
+    if (settings.serverUrl !== previous.serverUrl) {
+      // The session belongs to the old server. Signing in to the new one
+      // goes through the usual account switch, which keeps unsynced changes.
+      this.unsubscribe();
+      authService.logout().then(() =>
+        this.pauseForAuth(
+          new AuthError(`Sign in to ${new URL(settings.serverUrl).host}`)
+        )
+      );
+    } else if (settings.autoSync && !previous.autoSync) {
       this.syncData();
     }
+  };
+
+  // Exponential backoff, capped by the retry settings
+  private backoff(attempt: number) {
+    const cap = settingsService.get().maxRetryDelaySeconds * 1000;
+    return Math.min(1000 * Math.pow(2, attempt), cap);
   }
 
   private handleVisibilityChange = () => {
@@ -57,171 +227,493 @@ class SyncService {
     this.eventListeners.get(event)?.forEach((listener) => listener(data));
   }
 
-  private handleOnline = () => {
-    this.isOnline = true;
-    this.emitEvent("onlineStatusChange", true);
-    this.retryCount = 0;
-    this.syncData();
+  private get isOnline() {
+    return this.networkStatus === "online";
+  }
+
+  // The OS saw the connection change. In Electron the main process is asked
+  // to probe the server, and the result arrives through onNetworkStatus.
+  private handleConnectivityChange = () => {
+    if (window.api) {
+      window.api.checkNetwork();
+    } else {
+      this.setNetworkStatus(navigator.onLine ? "online" : "offline");
+    }
   };
 
-  private handleOffline = () => {
-    this.isOnline = false;
-    this.emitEvent("onlineStatusChange", false);
-    if (this.retryTimeout) {
-      clearTimeout(this.retryTimeout);
-      this.retryTimeout = null;
+  private setNetworkStatus = (status: NetworkStatus) => {
+    if (status === this.networkStatus) return;
+    const wasOnline = this.isOnline;
+    this.networkStatus = status;
+    this.emitEvent("onlineStatusChange", status);
+
+    if (this.isOnline && !wasOnline) {
+      this.retry.reset();
+      this.subscribe();
+      this.syncData();
+    } else if (!this.isOnline && wasOnline) {
+      this.retry.cancel();
+      this.unsubscribe();
+    }
+  };
+
+  // Listens for changes the server pushes as other clients edit todos
+  private async subscribe() {
+    if (this.eventSource || !this.isOnline || this.authPaused || this.stopped) {
+      return;
+    }
+
+    // EventSource can't send headers, so the token goes in the query string
+    const token = await authService.getToken();
+    if (!token || this.eventSource) return;
+    let eventSource: EventSource;
+    try {
+      eventSource = await faultInjector.eventSource(
+        apiUrl(`/todos/events?${new URLSearchParams({ token })}`)
+      );
+    } catch (error) {
+      console.log("Could not connect to server events:", error);
+      this.reconnectLater();
+      return;
+    }
+    // Stopped, or connected elsewhere, while the injector held us up
+    if (this.eventSource || !this.isOnline || this.authPaused || this.stopped) {
+      eventSource.close();
+      return;
+    }
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      console.log("Connected to server events");
+      // Catch up on anything missed while disconnected
+      if (this.reconnectAttempts > 0) {
+        this.syncData();
+      }
+      this.reconnectAttempts = 0;
+    };
+
+    eventSource.addEventListener("changes", this.handleServerChanges);
+
+    // EventSource retries on its own at a fixed interval; take over so
+    // reconnects back off while the server is down
+    eventSource.onerror = () => {
+      this.unsubscribe();
+      this.reconnectLater();
+    };
+  }
+
+  private reconnectLater() {
+    if (!this.isOnline || this.stopped || this.reconnectTimeout) return;
+
+    const delay = this.backoff(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    console.log(`Server events disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.subscribe();
+    }, delay);
+  }
+
+  private unsubscribe() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.eventSource?.close();
+    this.eventSource = null;
+  }
+
+  private handleServerChanges = async (event: MessageEvent) => {
+    try {
+      // The next sync after unlocking pulls these too
+      if (await dbService.isLocked()) return;
+      const { todos }: { todos: ApiTodo[] } = JSON.parse(event.data);
+      const applied = await dbService.applyRemoteChanges(
+        todos.map(toRemoteTodo)
+      );
+      if (applied > 0) {
+        this.emitEvent("remoteChange", { count: applied });
+      }
+    } catch (error) {
+      console.error("Failed to apply server changes:", error);
     }
   };
 
-  private async sendToServer(todos: TodoItem[]): Promise<boolean> {
-    if (!this.isOnline) return false;
+  // Stops syncing until the user signs in again. The outbox is kept, so
+  // offline changes are sent once sync resumes.
+  private pauseForAuth(error: AuthError) {
+    this.authPaused = true;
+    this.unsubscribe();
+    this.retry.cancel();
+    this.emitEvent("authRequired", { message: error.message });
+  }
+
+  // Called after a successful sign in
+  resume() {
+    this.authPaused = false;
+    this.retry.reset();
+    this.subscribe();
+    this.syncData();
+  }
 
+  // Replays outbox operations in order and acknowledges each one the server
+  // reports back
+  private async sendToServer(operations: OutboxOperation[]) {
+    const settled = new Set<OutboxOperation>();
     try {
-      console.log("Sending todos to server:", todos);
-      const response = await fetch(`${API_BASE_URL}/todos/sync`, {
+      // Ids only: payloads hold decrypted titles and notes
+      console.log(
+        `Sending ${operations.length} operations:`,
+        operations.map((op) => `${op.type} ${op.clientId}`)
+      );
+      const response = await authService.fetch("/todos/sync", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          todos: todos.map((todo) => ({
-            _id: todo.serverId,
-            title: todo.title,
-            completed: todo.completed,
-            deleted: todo.deleted,
-            action: todo.lastAction,
-            createdAt: new Date(todo.createdAt).toISOString(),
-            updatedAt: new Date(todo.updatedAt).toISOString(),
+          todos: operations.map((op) => ({
+            opId: op.id,
+            _id: op.serverId,
+            clientId: op.clientId,
+            listId: op.payload.listId,
+            ...toServerFields(op.payload),
+            action: op.type,
+            // The server copy this edit was made against, so the server can
+            // detect and merge concurrent edits
+            baseVersion: op.baseVersion,
+            base: op.base && toServerFields(op.base),
+            createdAt: new Date(op.payload.createdAt).toISOString(),
+            updatedAt: new Date(op.payload.updatedAt).toISOString(),
           })),
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        console.error("Server returned error:", errorData);
-        throw new Error(
-          `Sync failed: ${errorData.message || response.statusText}`
-        );
+        throw await toHttpError(response, "Sync failed");
       }
 
-      const { todos: serverTodos } = await response.json();
-      console.log("Received synced todos from server:", serverTodos);
-
-      if (!Array.isArray(serverTodos)) {
+      const { results }: SyncResponse = await response.json();
+      if (!Array.isArray(results)) {
         throw new Error("Invalid response format from server");
       }
+      console.log(
+        "Received sync results:",
+        results.map((result) => `${result.status} ${result.clientId}`)
+      );
 
-      // Get all local todos for comparison
-      const allLocalTodos = await dbService.getAllTodos(true);
-
-      // Update local database with synced todos
-      for (const serverTodo of serverTodos) {
-        const localTodo = allLocalTodos.find(
-          (t) =>
-            t.serverId === serverTodo._id ||
-            (!t.serverId && t.title === serverTodo.title)
-        );
-
-        if (localTodo) {
-          if (serverTodo.deleted) {
-            // Server confirms deletion
-            await dbService.markTodoDeleted(localTodo.id!, true);
-          } else if (localTodo.deleted) {
-            // Local delete wasn't reflected in server response
-            await dbService.markTodoDeleted(localTodo.id!, false);
-          } else {
-            // Update existing todo
-            await dbService.updateTodo(localTodo.id!, {
-              serverId: serverTodo._id,
-              title: serverTodo.title,
-              completed: serverTodo.completed,
-              createdAt: new Date(serverTodo.createdAt).getTime(),
-              updatedAt: new Date(serverTodo.updatedAt).getTime(),
-              syncedAt: new Date(serverTodo.syncedAt).getTime(),
-              lastAction: undefined,
-              syncError: undefined,
-            });
+      const counts: Record<string, number> = {};
+      let conflicts = 0;
+      for (const operation of operations) {
+        const result = results.find((r) => r.opId === operation.id);
+        if (!result) {
+          await dbService.failOperation(operation, "Not confirmed by server");
+        } else if (result.status === "applied" && result.todo) {
+          await dbService.completeOperation(operation, toRemoteTodo(result.todo));
+        } else if (result.status === "conflict" && result.todo) {
+          await dbService.saveConflict(
+            {
+              clientId: operation.clientId,
+              todoId: operation.todoId,
+              fields: (result.fields ?? []).map(toConflictField),
+              remote: toRemoteTodo(result.todo),
+              detectedAt: Date.now(),
+            },
+            operation
+          );
+          conflicts++;
+        } else if (result.status === "not_found") {
+          await dbService.resolveMissingOperation(operation);
+        } else if (result.code === "forbidden") {
+          const error = result.error ?? "Not allowed";
+          if (await dbService.rejectOperation(operation, error)) {
+            syncLog.note(`Removed a new todo the server refused: ${error}`);
           }
+        } else if (PERMANENT_CODES.has(result.code ?? "")) {
+          // Sending it unchanged would be refused again, so it waits for
+          // the user to edit the todo or retry it from diagnostics
+          const error = describeError(
+            result.error ?? "Refused by the server",
+            result.details
+          );
+          await dbService.failOperation(operation, error, true);
+          syncLog.note(`Holding a change the server refused: ${error}`);
         } else {
-          // New todo from server
-          await dbService.addTodo({
-            serverId: serverTodo._id,
-            title: serverTodo.title,
-            completed: serverTodo.completed,
-            createdAt: new Date(serverTodo.createdAt).getTime(),
-            updatedAt: new Date(serverTodo.updatedAt).getTime(),
-            syncedAt: new Date(serverTodo.syncedAt).getTime(),
-            localOnly: false,
-          });
+          // Failed items stay queued for the next sync
+          await dbService.failOperation(
+            operation,
+            describeError(result.error ?? "Sync failed", result.details)
+          );
         }
+        settled.add(operation);
+        const status = result?.status ?? "unconfirmed";
+        counts[status] = (counts[status] ?? 0) + 1;
       }
+      syncLog.note(
+        `Sent ${operations.length} operations: ${Object.entries(counts)
+          .map(([status, count]) => `${count} ${status}`)
+          .join(", ")}`
+      );
 
-      return true;
+      if (conflicts > 0) {
+        this.emitEvent("conflict", { count: conflicts });
+      }
     } catch (error) {
       console.error("Failed to sync todos:", error);
-      // Mark all attempted todos with sync error
-      for (const todo of todos) {
-        if (todo.id) {
-          await dbService.updateTodo(todo.id, {
-            syncError: error instanceof Error ? error.message : "Sync failed",
-          });
-        }
+      // Being signed out or locked is not the operations' fault
+      if (error instanceof AuthError || error instanceof LockedError) {
+        throw error;
+      }
+      // Count the attempt against every operation not yet settled; those
+      // already acknowledged are gone from the outbox
+      for (const operation of operations) {
+        if (settled.has(operation)) continue;
+        await dbService.failOperation(
+          operation,
+          error instanceof Error ? error.message : "Sync failed"
+        );
       }
       throw error;
     }
   }
 
-  async syncData() {
-    if (!this.isOnline || this.syncInProgress) return;
+  // Pulls every server change since the stored cursor, page by page
+  private async pullFromServer(): Promise<number> {
+    // Set when the server can no longer replay every delete since our
+    // cursor; we then pull everything and drop what it didn't send
+    let fullResync = this.fullResyncRequested;
+    let cursor = fullResync
+      ? undefined
+      : await dbService.getMeta<string>(SYNC_CURSOR_KEY);
+    let applied = 0;
+    let hasMore = true;
+    const seen = new Set<string>();
+
+    while (hasMore) {
+      const params = new URLSearchParams();
+      if (cursor) params.set("since", cursor);
+
+      const response = await authService.fetch(`/todos/changes?${params}`);
+      if (response.status === 410 && cursor) {
+        console.log("Pull cursor expired, resyncing from scratch");
+        syncLog.note("Pull cursor expired, resyncing from scratch");
+        cursor = undefined;
+        fullResync = true;
+        continue;
+      }
+      if (!response.ok) {
+        throw await toHttpError(response, "Pull failed");
+      }
+
+      const page: ChangesResponse = await response.json();
+      if (!Array.isArray(page.todos)) {
+        throw new Error("Invalid response format from server");
+      }
+
+      applied += await dbService.applyRemoteChanges(
+        page.todos.map(toRemoteTodo)
+      );
+      syncLog.note(`Pulled ${page.todos.length} changes`);
+      if (fullResync) {
+        for (const todo of page.todos) {
+          if (!todo.deleted) seen.add(todo._id);
+        }
+      }
+      if (page.cursor) {
+        cursor = page.cursor;
+        await dbService.setMeta(SYNC_CURSOR_KEY, cursor);
+      }
+      hasMore = page.hasMore && page.todos.length > 0;
+    }
+
+    if (fullResync) {
+      const removed = await dbService.removeTodosNotOnServer(seen);
+      syncLog.note(`Removed ${removed} todos the server no longer has`);
+      applied += removed;
+      this.fullResyncRequested = false;
+    }
+    console.log("Applied server changes:", applied);
+    return applied;
+  }
+
+  /**
+   * Starts a sync unless one is already running; resolves once it is done.
+   * Automatic syncs are skipped while auto-sync is off or a retry is
+   * scheduled; manual ones, e.g. "Sync now", always go ahead.
+   */
+  syncData({ manual = false }: { manual?: boolean } = {}) {
+    if (
+      !this.isOnline ||
+      this.authPaused ||
+      this.stopped ||
+      (!manual && (!settingsService.get().autoSync || this.retry.waiting))
+    ) {
+      return Promise.resolve();
+    }
+    this.currentSync ??= this.withSyncLock(() => this.runSync(manual)).finally(
+      () => {
+        this.currentSync = null;
+      }
+    );
+    return this.currentSync;
+  }
 
+  // Windows and tabs share one outbox, so they take turns sending it. A sync
+  // asked for while another context holds the lock runs after it, picking up
+  // whatever that one didn't send.
+  private async withSyncLock(task: () => Promise<void>) {
+    if (!navigator.locks) return task();
+    await navigator.locks.request(SYNC_LOCK, task);
+  }
+
+  private async runSync(manual: boolean) {
     try {
-      this.syncInProgress = true;
+      if (await dbService.isLocked()) return;
+      syncLog.start(manual);
       this.emitEvent("syncStart");
 
-      const unsyncedTodos = await dbService.getUnsyncedTodos();
-      console.log("Found unsynced todos:", unsyncedTodos);
+      const operations = await dbService.getPendingOperations();
 
-      if (unsyncedTodos.length === 0) {
-        this.emitEvent("syncComplete", {
-          message: "No items to sync",
-        });
-        return;
+      if (operations.length > 0) {
+        await this.sendToServer(operations);
       }
 
-      const synced = await this.sendToServer(unsyncedTodos);
+      // Todos of a newly joined list are older than our cursor, so start
+      // the pull over
+      if (await listService.refresh()) {
+        await dbService.setMeta(SYNC_CURSOR_KEY, null);
+      }
+      const pulled = await this.pullFromServer();
+      this.retry.reset();
 
-      if (!synced && this.retryCount < this.maxRetries) {
-        this.retryCount++;
-        this.retryTimeout = setTimeout(() => {
-          this.syncData();
-        }, Math.min(1000 * Math.pow(2, this.retryCount), 30000));
-        this.emitEvent("syncError", {
-          message: `Failed to sync ${unsyncedTodos.length} items. Retrying...`,
-          retryCount: this.retryCount,
-        });
-      } else if (synced) {
-        this.retryCount = 0;
-        this.emitEvent("syncComplete", {
-          message: `Successfully synced ${unsyncedTodos.length} items`,
-        });
+      const parts = [];
+      if (operations.length > 0) {
+        parts.push(`synced ${operations.length} items`);
       }
+      if (pulled > 0) {
+        parts.push(`received ${pulled} changes`);
+      }
+      const message =
+        parts.length > 0
+          ? `Successfully ${parts.join(" and ")}`
+          : "Everything up to date";
+      syncLog.finish("success", message);
+      this.emitEvent("syncComplete", { message });
     } catch (error) {
       console.error("Failed to sync data:", error);
+      syncLog.finish(
+        "error",
+        error instanceof Error ? error.message : "Sync failed"
+      );
+      if (error instanceof AuthError) {
+        this.pauseForAuth(error);
+        return;
+      }
+      // Locked partway through; unlocking starts another sync
+      if (error instanceof LockedError) return;
+      const kind = classifyError(error);
+      // fetch rejects with a TypeError when the server can't be reached
+      if (error instanceof TypeError) {
+        window.api?.checkNetwork();
+      }
       this.emitEvent("syncError", {
         message: error instanceof Error ? error.message : "Sync failed",
-        retryCount: this.retryCount,
-      });
-    } finally {
-      this.syncInProgress = false;
+        kind,
+        ...this.retry.failed(error, kind),
+      } satisfies SyncErrorEvent);
+    }
+  }
+
+  /**
+   * Runs `task`, such as a restore that replaces the local database, while
+   * no window is syncing, then syncs to reconcile the result with the
+   * server.
+   */
+  async resyncAfter(task: () => Promise<void>) {
+    await this.withSyncLock(task);
+    this.retry.cancel();
+    await this.syncData({ manual: true });
+  }
+
+  /**
+   * Pulls every todo again instead of only the changes since the stored
+   * cursor, dropping synced todos the server no longer has. Pending local
+   * changes are sent first as usual.
+   */
+  async resyncAll() {
+    this.fullResyncRequested = true;
+    await this.resyncAfter(async () => {
+      await dbService.setMeta(SYNC_CURSOR_KEY, null);
+    });
+  }
+
+  /**
+   * Throws away every local todo, change and conflict, then pulls a fresh
+   * copy from the server. The session and encryption stay.
+   */
+  async resetFromServer() {
+    // Without a pull straight after, the todos would just be gone
+    if (!this.isOnline || this.authPaused) {
+      throw new Error("Connect to the server and sign in first");
     }
+    await this.resyncAfter(async () => {
+      await dbService.clearTodoData();
+      await dbService.setMeta(SYNC_CURSOR_KEY, null);
+    });
+  }
+
+  // Sends one todo's queued changes right away, even while a retry is
+  // scheduled. A failure is recorded on its operations like any other.
+  async retryItem(clientId: string) {
+    await this.withSyncLock(async () => {
+      const operations = (
+        await dbService.getPendingOperations({ includeNeedsAction: true })
+      ).filter(
+        (op) => op.clientId === clientId
+      );
+      if (operations.length === 0) return;
+      syncLog.start(true);
+      try {
+        await this.sendToServer(operations);
+        syncLog.finish("success", "Retried one todo");
+      } catch (error) {
+        syncLog.finish(
+          "error",
+          error instanceof Error ? error.message : "Retry failed"
+        );
+        if (error instanceof AuthError) this.pauseForAuth(error);
+        throw error;
+      }
+    });
+  }
+
+  // Runs the scheduled retry now, e.g. from a "Retry now" button
+  retryNow() {
+    this.retry.cancel();
+    return this.syncData({ manual: true });
+  }
+
+  /**
+   * Lets the sync in flight finish, then stops syncing for good. Called
+   * before the app quits so a batch isn't cut off halfway.
+   */
+  async stop() {
+    this.stopped = true;
+    this.retry.cancel();
+    this.unsubscribe();
+    await this.currentSync;
   }
 
   getOnlineStatus() {
     return this.isOnline;
   }
+
+  getNetworkStatus() {
+    return this.networkStatus;
+  }
 }
 
 const syncService = new SyncService();
 export { syncService };
-export type { SyncEventType, SyncEventListener };
+export type { SyncEventType, SyncEventListener, SyncErrorEvent };
 export default syncService;
@@ -0,0 +1,99 @@
+// A request made during a sync attempt. `status` is null when no response
+// came back, e.g. the server couldn't be reached.
+interface SyncRequest {
+  method: string;
+  path: string;
+  status: number | null;
+  durationMs: number;
+}
+
+type SyncOutcome = "success" | "error";
+
+interface SyncAttempt {
+  id: number;
+  manual: boolean;
+  startedAt: number;
+  durationMs?: number; // Unset while the attempt is running
+  outcome?: SyncOutcome;
+  message?: string;
+  requests: SyncRequest[];
+  // What the attempt sent and received, e.g. "Sent 3 operations"
+  notes: string[];
+}
+
+type SyncLogListener = (attempts: SyncAttempt[]) => void;
+
+// Older attempts are forgotten; this is for a bug report, not an audit
+const MAX_ATTEMPTS = 50;
+
+// Query values can hold cursors or search terms, so only their names stay
+const redactPath = (path: string) => path.replace(/=[^&]*/g, "=…");
+
+/**
+ * Keeps a timeline of this window's recent sync attempts, with a summary of
+ * every request each one made, for the diagnostics panel.
+ */
+class SyncLog {
+  private attempts: SyncAttempt[] = [];
+  private current: SyncAttempt | null = null;
+  private nextId = 1;
+  private listeners = new Set<SyncLogListener>();
+
+  start(manual: boolean) {
+    this.current = {
+      id: this.nextId++,
+      manual,
+      startedAt: Date.now(),
+      requests: [],
+      notes: [],
+    };
+    this.attempts = [this.current, ...this.attempts].slice(0, MAX_ATTEMPTS);
+    this.emit();
+  }
+
+  finish(outcome: SyncOutcome, message?: string) {
+    if (!this.current) return;
+    this.current.outcome = outcome;
+    this.current.message = message;
+    this.current.durationMs = Date.now() - this.current.startedAt;
+    this.current = null;
+    this.emit();
+  }
+
+  // Requests outside an attempt, e.g. list changes, aren't recorded
+  request(request: SyncRequest) {
+    if (!this.current) return;
+    this.current.requests.push({ ...request, path: redactPath(request.path) });
+    this.emit();
+  }
+
+  note(note: string) {
+    if (!this.current) return;
+    this.current.notes.push(note);
+    this.emit();
+  }
+
+  // Newest first
+  getAttempts(): SyncAttempt[] {
+    return this.attempts.map((attempt) => ({
+      ...attempt,
+      requests: [...attempt.requests],
+      notes: [...attempt.notes],
+    }));
+  }
+
+  onChange(listener: SyncLogListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    const attempts = this.getAttempts();
+    this.listeners.forEach((listener) => listener(attempts));
+  }
+}
+
+export const syncLog = new SyncLog();
+export type { SyncAttempt, SyncRequest, SyncOutcome };
@@ -0,0 +1,201 @@
+import "fake-indexeddb/auto";
+import { deleteDB } from "idb";
+import { beforeEach, describe, expect, it } from "vitest";
+import { TODO_LIMITS } from "../../shared/api";
+import { dbService, TodoItem } from "./database";
+import { exportTodos, planImport } from "./transfer";
+
+const DB_NAME = "offline-app-db";
+
+// What the plan says each imported todo is, without the generated ids
+const summarize = (todos: Awaited<ReturnType<typeof planImport>>["create"]) =>
+  todos.map(({ subtasks, ...todo }) => ({
+    ...todo,
+    subtasks: subtasks?.map(({ title, completed }) => ({ title, completed })),
+  }));
+
+beforeEach(async () => {
+  await deleteDB(DB_NAME);
+});
+
+describe("planImport from CSV", () => {
+  it("reads quoted fields, line breaks and loose column names", async () => {
+    const csv = [
+      "\uFEFFTitle,Completed,Due,Priority,Tags,Notes",
+      '"Buy milk, eggs",yes,2026-01-02T03:04:05.000Z,HIGH,"home; errands",',
+      '"Say ""hi""",false,,,,"Line one',
+      'line two"',
+      "",
+    ].join("\r\n");
+
+    const plan = await planImport(csv, "csv");
+
+    expect(plan.invalid).toEqual([]);
+    expect(summarize(plan.create)).toEqual([
+      {
+        title: "Buy milk, eggs",
+        completed: true,
+        dueAt: Date.parse("2026-01-02T03:04:05.000Z"),
+        priority: "high",
+        notes: undefined,
+        tags: ["home", "errands"],
+        subtasks: [],
+        clientId: undefined,
+        serverId: undefined,
+      },
+      {
+        title: 'Say "hi"',
+        completed: false,
+        dueAt: undefined,
+        priority: undefined,
+        notes: "Line one\r\nline two",
+        tags: [],
+        subtasks: [],
+        clientId: undefined,
+        serverId: undefined,
+      },
+    ]);
+  });
+
+  it("reports bad rows by the line they start on", async () => {
+    const csv = [
+      "title,notes,dueAt,priority",
+      'First,"two',
+      'lines",,',
+      ",,,",
+      "Second,,,",
+      "Bad date,,someday,",
+      "Bad priority,,,urgent",
+    ].join("\n");
+
+    const plan = await planImport(csv, "csv");
+
+    expect(plan.create.map((todo) => todo.title)).toEqual([
+      "First",
+      "Second",
+    ]);
+    expect(plan.invalid).toEqual([
+      { line: 6, reason: '"someday" is not a date' },
+      { line: 7, reason: '"urgent" is not a priority' },
+    ]);
+  });
+
+  it("needs a title column", async () => {
+    const plan = await planImport("name,done\nMilk,true\n", "csv");
+
+    expect(plan.create).toEqual([]);
+    expect(plan.invalid).toEqual([
+      { line: 1, reason: "There is no title column" },
+    ]);
+  });
+
+  it("reads back its own export, subtasks included", async () => {
+    const todo: TodoItem = {
+      clientId: "exported",
+      title: "Pack, then leave",
+      completed: true,
+      dueAt: Date.parse("2026-03-04T00:00:00.000Z"),
+      priority: "low",
+      notes: 'Bring the "good" bag',
+      tags: ["trip"],
+      subtasks: [
+        { id: "a", title: "Passport", completed: true },
+        { id: "b", title: "Charger", completed: false },
+      ],
+      createdAt: 1,
+      updatedAt: 2,
+    };
+
+    const plan = await planImport(exportTodos([todo], "csv"), "csv");
+
+    expect(summarize(plan.create)).toEqual([
+      {
+        title: "Pack, then leave",
+        completed: true,
+        dueAt: todo.dueAt,
+        priority: "low",
+        notes: 'Bring the "good" bag',
+        tags: ["trip"],
+        subtasks: [
+          { title: "Passport", completed: true },
+          { title: "Charger", completed: false },
+        ],
+        clientId: undefined,
+        serverId: undefined,
+      },
+    ]);
+  });
+});
+
+describe("planImport from Markdown", () => {
+  it("turns checklist items into todos and indented ones into subtasks", async () => {
+    const markdown = [
+      "# Groceries",
+      "",
+      "- [ ] Milk",
+      "  - [x] Check the fridge",
+      "    * [ ] Deeper items are subtasks too",
+      "* [X] Bread",
+      "Some prose that isn't a todo",
+      "+ [ ] ",
+      "- not a checklist item",
+    ].join("\n");
+
+    const plan = await planImport(markdown, "markdown");
+
+    expect(plan.invalid).toEqual([{ line: 8, reason: "Title is missing" }]);
+    expect(
+      plan.create.map(({ title, completed, subtasks }) => ({
+        title,
+        completed,
+        subtasks: subtasks?.map((subtask) => [subtask.title, subtask.completed]),
+      }))
+    ).toEqual([
+      {
+        title: "Milk",
+        completed: false,
+        subtasks: [
+          ["Check the fridge", true],
+          ["Deeper items are subtasks too", false],
+        ],
+      },
+      { title: "Bread", completed: true, subtasks: [] },
+    ]);
+  });
+
+  it("reports todos over the server's limits", async () => {
+    const subtasks = Array.from(
+      { length: TODO_LIMITS.subtasks + 1 },
+      (_, index) => `  - [ ] Step ${index + 1}`
+    );
+    const markdown = [
+      `- [ ] ${"a".repeat(TODO_LIMITS.title + 1)}`,
+      "- [ ] Fits",
+      "- [ ] Too many steps",
+      ...subtasks,
+    ].join("\n");
+
+    const plan = await planImport(markdown, "markdown");
+
+    expect(plan.create.map((todo) => todo.title)).toEqual(["Fits"]);
+    expect(plan.invalid).toEqual([
+      { line: 1, reason: `Title is over ${TODO_LIMITS.title} characters` },
+      {
+        line: 3,
+        reason: `Subtask list is over ${TODO_LIMITS.subtasks} subtasks`,
+      },
+    ]);
+  });
+
+  it("skips todos already in the list or earlier in the file", async () => {
+    await dbService.addTodo({ title: "Milk", completed: false });
+
+    const plan = await planImport(
+      "- [ ] milk\n- [ ] Eggs\n- [x] EGGS\n",
+      "markdown"
+    );
+
+    expect(plan.create.map((todo) => todo.title)).toEqual(["Eggs"]);
+    expect(plan.duplicates.map((todo) => todo.title)).toEqual(["milk", "EGGS"]);
+  });
+});
@@ -0,0 +1,368 @@
+import { dbService, Priority, Subtask, TodoFields, TodoItem } from "./database";
+import { TODO_LIMITS, TODO_PRIORITIES } from "../../shared/api";
+import {
+  CSV_COLUMNS,
+  EXPORT_CONTENT,
+  ExportedTodo,
+  ExportFormat,
+  formatExport,
+  parseSubtaskLines,
+} from "../../shared/transfer";
+
+type TransferFormat = ExportFormat;
+
+// A todo read from a file, before it is checked against the database
+type ImportedTodo = Pick<TodoItem, keyof TodoFields> & {
+  // Only the JSON format carries these
+  clientId?: string;
+  serverId?: string;
+};
+
+type InvalidRow = { line: number; reason: string };
+
+type ImportPlan = {
+  create: ImportedTodo[];
+  duplicates: ImportedTodo[];
+  invalid: InvalidRow[];
+};
+
+const toIso = (time?: number) =>
+  time === undefined ? undefined : new Date(time).toISOString();
+
+const toExportedTodo = (todo: TodoItem): ExportedTodo => ({
+  clientId: todo.clientId,
+  serverId: todo.serverId,
+  listId: todo.listId,
+  title: todo.title,
+  completed: todo.completed,
+  dueAt: todo.dueAt ?? null,
+  priority: todo.priority ?? null,
+  notes: todo.notes ?? "",
+  tags: todo.tags ?? [],
+  subtasks: todo.subtasks ?? [],
+  createdAt: toIso(todo.createdAt)!,
+  updatedAt: toIso(todo.updatedAt)!,
+  syncedAt: toIso(todo.syncedAt),
+  version: todo.serverVersion,
+});
+
+export const exportTodos = (todos: TodoItem[], format: TransferFormat) =>
+  formatExport(todos.map(toExportedTodo), format);
+
+export const formatFromFileName = (name: string): TransferFormat | null => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "csv") return "csv";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  return null;
+};
+
+const parseTime = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const time =
+    typeof value === "number" ? value : Date.parse(String(value));
+  if (Number.isNaN(time)) throw new Error(`"${value}" is not a date`);
+  return time;
+};
+
+const parsePriority = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const priority = String(value).toLowerCase() as Priority;
+  if (!TODO_PRIORITIES.includes(priority)) {
+    throw new Error(`"${value}" is not a priority`);
+  }
+  return priority;
+};
+
+const parseTags = (value: unknown) => {
+  const tags = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string"
+    ? value.split(/[;,]/)
+    : [];
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+};
+
+// JSON has subtask objects, CSV a "[x] title" line per subtask
+const parseSubtasks = (value: unknown): Subtask[] => {
+  const subtasks: Partial<Subtask>[] = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? parseSubtaskLines(value)
+    : [];
+  return subtasks
+    .filter((subtask) => typeof subtask?.title === "string" && subtask.title.trim())
+    .map((subtask) => ({
+      id: crypto.randomUUID(),
+      title: subtask.title!.trim(),
+      completed: subtask.completed === true,
+    }));
+};
+
+// The server refuses a todo over its limits, so such rows are reported here
+// instead of failing every sync after the import
+const checkLimit = (what: string, size: number, limit: number, unit: string) => {
+  if (size > limit) throw new Error(`${what} is over ${limit} ${unit}`);
+};
+
+const checkLimits = (todo: ImportedTodo) => {
+  checkLimit("Title", todo.title.length, TODO_LIMITS.title, "characters");
+  checkLimit("Notes", todo.notes?.length ?? 0, TODO_LIMITS.notes, "characters");
+  checkLimit("Tag list", todo.tags?.length ?? 0, TODO_LIMITS.tags, "tags");
+  for (const tag of todo.tags ?? []) {
+    checkLimit(`Tag "${tag}"`, tag.length, TODO_LIMITS.tag, "characters");
+  }
+  const subtasks = todo.subtasks ?? [];
+  checkLimit("Subtask list", subtasks.length, TODO_LIMITS.subtasks, "subtasks");
+  for (const subtask of subtasks) {
+    checkLimit(
+      "Subtask title",
+      subtask.title.length,
+      TODO_LIMITS.subtaskTitle,
+      "characters"
+    );
+  }
+};
+
+// Checks one todo's fields, whatever the format they came from
+const toImportedTodo = (input: Record<string, unknown>): ImportedTodo => {
+  const title = typeof input.title === "string" ? input.title.trim() : "";
+  if (!title) throw new Error("Title is missing");
+  const completed = input.completed;
+  const todo: ImportedTodo = {
+    title,
+    completed:
+      typeof completed === "boolean"
+        ? completed
+        : ["true", "yes", "1", "x"].includes(String(completed ?? "").toLowerCase()),
+    dueAt: parseTime(input.dueAt),
+    priority: parsePriority(input.priority),
+    notes: typeof input.notes === "string" && input.notes ? input.notes : undefined,
+    tags: parseTags(input.tags),
+    subtasks: parseSubtasks(input.subtasks),
+    clientId: typeof input.clientId === "string" ? input.clientId : undefined,
+    serverId: typeof input.serverId === "string" ? input.serverId : undefined,
+  };
+  checkLimits(todo);
+  return todo;
+};
+
+// Splits CSV text into rows of fields, with the line each row starts on.
+// Quoted fields may hold separators, doubled quotes and line breaks.
+const parseCsvRows = (text: string) => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+  // Blank lines aren't rows
+  return rows.filter((row) => row.fields.some((value) => value.trim()));
+};
+
+const parseCsv = (text: string) => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) return { todos: [], invalid: [] };
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  if (!columns.includes("title")) {
+    return {
+      todos: [],
+      invalid: [{ line: header.line, reason: "There is no title column" }],
+    };
+  }
+
+  const todos: ImportedTodo[] = [];
+  const invalid: InvalidRow[] = [];
+  for (const row of rows) {
+    const input: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      // Matches "dueAt", "dueat" and "due"
+      const key =
+        CSV_COLUMNS.find((name) => name.toLowerCase() === column) ??
+        (column === "due" ? "dueAt" : column);
+      input[key] = row.fields[index] ?? "";
+    });
+    try {
+      todos.push(toImportedTodo(input));
+    } catch (error) {
+      invalid.push({ line: row.line, reason: (error as Error).message });
+    }
+  }
+  return { todos, invalid };
+};
+
+const CHECKLIST_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+// Top-level checklist items become todos and indented ones their subtasks.
+// Other lines, such as headings, are skipped.
+const parseMarkdown = (text: string) => {
+  const items: {
+    line: number;
+    title: string;
+    completed: boolean;
+    subtasks: Pick<Subtask, "title" | "completed">[];
+  }[] = [];
+  const invalid: InvalidRow[] = [];
+  let parentIndent = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (const [index, content] of lines.entries()) {
+    const match = CHECKLIST_ITEM.exec(content);
+    if (!match) continue;
+    const [, indent, mark, title] = match;
+    const completed = mark !== " ";
+    if (!title.trim()) {
+      invalid.push({ line: index + 1, reason: "Title is missing" });
+      continue;
+    }
+    const parent = items.at(-1);
+    if (parent && indent.length > parentIndent) {
+      parent.subtasks.push({ title, completed });
+      continue;
+    }
+    items.push({ line: index + 1, title, completed, subtasks: [] });
+    parentIndent = indent.length;
+  }
+
+  // Checked once the subtasks are in, since they count towards the limits
+  const todos: ImportedTodo[] = [];
+  for (const { line, ...item } of items) {
+    try {
+      todos.push(toImportedTodo(item));
+    } catch (error) {
+      invalid.push({ line, reason: (error as Error).message });
+    }
+  }
+  invalid.sort((a, b) => a.line - b.line);
+  return { todos, invalid };
+};
+
+const parseJson = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { todos: [], invalid: [{ line: 1, reason: "Not valid JSON" }] };
+  }
+  // Our export, or a bare array of todos
+  const items =
+    data && typeof data === "object" && "todos" in data
+      ? (data as { todos: unknown }).todos
+      : data;
+  if (!Array.isArray(items)) {
+    return { todos: [], invalid: [{ line: 1, reason: "No todos found" }] };
+  }
+
+  const todos: ImportedTodo[] = [];
+  const invalid: InvalidRow[] = [];
+  items.forEach((item, index) => {
+    try {
+      if (!item || typeof item !== "object") throw new Error("Not a todo");
+      todos.push(toImportedTodo(item as Record<string, unknown>));
+    } catch (error) {
+      // JSON has no useful line numbers, so report the item's position
+      invalid.push({ line: index + 1, reason: (error as Error).message });
+    }
+  });
+  return { todos, invalid };
+};
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Reads a file and sorts its todos into those to create and those already
+ * in the list. A todo is a duplicate if its client or server id is known,
+ * or if the list, or the file before it, has a todo with the same title.
+ */
+export const planImport = async (
+  text: string,
+  format: TransferFormat,
+  listId?: string
+): Promise<ImportPlan> => {
+  const { todos, invalid } =
+    format === "json"
+      ? parseJson(text)
+      : format === "csv"
+      ? parseCsv(text)
+      : parseMarkdown(text);
+
+  const existing = await dbService.getAllTodos();
+  const ids = new Set(
+    existing.flatMap((todo) => [todo.clientId, todo.serverId].filter(Boolean))
+  );
+  const titles = new Set(
+    existing
+      .filter((todo) => todo.listId === listId)
+      .map((todo) => titleKey(todo.title))
+  );
+
+  const plan: ImportPlan = { create: [], duplicates: [], invalid };
+  for (const todo of todos) {
+    const isDuplicate =
+      (todo.clientId && ids.has(todo.clientId)) ||
+      (todo.serverId && ids.has(todo.serverId)) ||
+      titles.has(titleKey(todo.title));
+    if (isDuplicate) {
+      plan.duplicates.push(todo);
+    } else {
+      plan.create.push(todo);
+      titles.add(titleKey(todo.title));
+    }
+  }
+  return plan;
+};
+
+// Adds the planned todos like any local edit, so they sync as usual
+export const applyImport = async (plan: ImportPlan, listId?: string) => {
+  let created = 0;
+  for (const todo of plan.create) {
+    await dbService.addTodo({
+      listId,
+      title: todo.title,
+      completed: todo.completed,
+      dueAt: todo.dueAt,
+      priority: todo.priority,
+      notes: todo.notes,
+      tags: todo.tags,
+      subtasks: todo.subtasks,
+    });
+    created++;
+  }
+  return created;
+};
+
+export { EXPORT_CONTENT };
+export type { TransferFormat, ImportedTodo, ImportPlan, InvalidRow };